@@ -0,0 +1 @@
+export { mockContract } from "./build/mock.js"
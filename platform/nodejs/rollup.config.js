@@ -2,5 +2,5 @@ import defaultConfig from "../../rollup.config.js"
 
 export default {
    ...defaultConfig,
-   external: ["node:buffer", "node:worker_threads", "node:process"],
+   external: ["node:buffer", "node:fs/promises", "node:path", "node:process", "node:worker_threads"],
 }
@@ -1,4 +1,6 @@
 export const id = import.meta.url
 export const service: ServiceMap = {
+  'std.journal': { implementation: true },
   'std.kernel': { implementation: true },
+  'std.trace': { implementation: true },
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+// --- TypeScript ---
+import type Journal from 'std.journal'
+// --- JavaScript ---
+export default async ({ former }: Contract<Journal>): Promise<Journal> => {
+  if (!former) {
+    throw new Error("file journal must refine a former journal")
+  }
+  journal = await former()
+  return import("./intern.js")
+}
+export let journal: Journal
@@ -0,0 +1,102 @@
+// --- TypeScript ---
+import type Data from 'std.data'
+import type Fx from 'std.fx'
+import type Journal from 'std.journal'
+import type Theater from 'std.theater'
+// --- JavaScript ---
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { journal } from "./extern.js"
+
+export function PersistentRole<
+  A extends Theater.Actor, E extends Data.Value, T extends Data.Value = Data.Value, S extends {} = {}
+>(): Fx.Mixin<Journal.PersistentRole<A, E, T>, S> {
+  return journal.PersistentRole<A, E, T, S>()
+}
+
+export function memory(): Journal.Store {
+  return journal.memory()
+}
+
+export function directory(path: string): Journal.Store {
+  return new FileStore(path)
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// a file store writes a journal file with JSON lines and a snapshot file per persistent actor
+class FileStore implements Journal.Store {
+  // path of directory with files
+  readonly #directory: string
+  // last operation of persistence id, such that operations on the same files do not overlap
+  readonly #operations: Map<string, Promise<unknown>>
+  // sequence numbers of last stored entries by persistence id
+  readonly #sequences: Map<string, number>
+  // perform operation after previous operation of persistence id has settled
+  #serialize<T>(id: string, operation: () => Promise<T>): Promise<T> {
+    const operations = this.#operations, previous = operations.get(id)
+    const next = previous ? previous.then(operation, operation) : operation()
+    operations.set(id, next)
+    const forget = () => { if (operations.get(id) === next) operations.delete(id) }
+    next.then(forget, forget)
+    return next
+  }
+  // file path of persistent actor, with an escaped persistence id
+  #path(id: string, extension: string) {
+    return join(this.#directory, `${encodeURIComponent(id)}.${extension}`)
+  }
+  async #readEntries(id: string): Promise<Journal.Entry[]> {
+    const text = await readOptional(this.#path(id, "journal"))
+    return text ? text.split("\n").filter(line => line).map(line => JSON.parse(line)) : []
+  }
+  constructor(directory: string) {
+    this.#directory = directory
+    this.#operations = new Map()
+    this.#sequences = new Map()
+  }
+  public append(id: string, entries: Journal.Entry[]): Promise<void> {
+    return this.#serialize(id, async () => {
+      const sequences = this.#sequences
+      const stored = sequences.get(id) ?? (await this.#readEntries(id)).at(-1)?.sequence ?? 0
+      let last = stored
+      for (const { sequence } of entries) {
+        if (sequence !== ++last) {
+          throw new Error(`journal entry ${sequence} of "${id}" does not follow entry ${last - 1}`)
+        }
+      }
+      await mkdir(this.#directory, { recursive: true })
+      const lines = entries.map(({ sequence, event }) => `${JSON.stringify({ sequence, event })}\n`)
+      await appendFile(this.#path(id, "journal"), lines.join(""))
+      sequences.set(id, last)
+    })
+  }
+  public replay(id: string, after: number): Promise<Journal.Entry[]> {
+    return this.#serialize(id, async () =>
+      (await this.#readEntries(id)).filter(({ sequence }) => sequence > after))
+  }
+  public save(id: string, { sequence, state }: Journal.Snapshot): Promise<void> {
+    return this.#serialize(id, async () => {
+      await mkdir(this.#directory, { recursive: true })
+      // replace snapshot file atomically
+      const path = this.#path(id, "snapshot"), temporary = `${path}.tmp`
+      await writeFile(temporary, JSON.stringify({ sequence, state }))
+      await rename(temporary, path)
+    })
+  }
+  public load(id: string): Promise<Journal.Snapshot | undefined> {
+    return this.#serialize(id, async () => {
+      const text = await readOptional(this.#path(id, "snapshot"))
+      return text ? JSON.parse(text) as { sequence: number, state: Data.Structure } : void 0
+    })
+  }
+}
+// read text of file, or undefined when file does not exist
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8")
+  } catch (problem) {
+    if ((problem as NodeJS.ErrnoException).code === "ENOENT") {
+      return void 0
+    }
+    throw problem
+  }
+}
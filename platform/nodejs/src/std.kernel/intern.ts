@@ -14,9 +14,22 @@ export function isUnparented() {
   return isMainThread
 }
 
+export function now(): number {
+  return performance.now()
+}
+
+export function queueMicrotask(microtask: () => void): void {
+  globalThis.queueMicrotask(microtask)
+}
+
 // use setImmediate for macrotasks
 export const queueMacrotask = setImmediate
 
+export function queueTimeout(ms: number, macrotask: () => void): () => void {
+  const timer = setTimeout(macrotask, ms)
+  return () => clearTimeout(timer)
+}
+
 export async function startWorker<Init>(
   path: URL,
   initial: Init,
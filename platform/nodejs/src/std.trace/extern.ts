@@ -0,0 +1,11 @@
+// --- TypeScript ---
+import type Trace from 'std.trace'
+// --- JavaScript ---
+export default async ({ former }: Contract<Trace>): Promise<Trace> => {
+  if (!former) {
+    throw new Error("chrome trace files must refine a former trace service")
+  }
+  trace = await former()
+  return import("./intern.js")
+}
+export let trace: Trace
@@ -0,0 +1,14 @@
+// --- TypeScript ---
+import type Theater from 'std.theater'
+import type Trace from 'std.trace'
+// --- JavaScript ---
+import { writeFile } from "node:fs/promises"
+import { trace } from "./extern.js"
+
+export function chrome(events?: readonly Theater.TraceEvent[]): Trace.Chrome {
+  return trace.chrome(events)
+}
+
+export async function writeChrome(path: string, events?: readonly Theater.TraceEvent[]): Promise<void> {
+  await writeFile(path, JSON.stringify(trace.chrome(events)))
+}
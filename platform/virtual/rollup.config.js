@@ -0,0 +1,3 @@
+import defaultConfig from "../../rollup.config.js"
+
+export default defaultConfig
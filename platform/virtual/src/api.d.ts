@@ -0,0 +1,2 @@
+/// <reference path="../../../src/api.d.ts" />
+/// <reference path="./std.scheduler/api.d.ts" />
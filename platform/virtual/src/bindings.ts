@@ -0,0 +1,5 @@
+export const id = import.meta.url
+export const service: ServiceMap = {
+  'std.kernel': { implementation: true },
+  'std.scheduler': { specification: true, implementation: true },
+}
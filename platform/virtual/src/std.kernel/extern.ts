@@ -0,0 +1,12 @@
+// --- TypeScript ---
+import type Kernel from 'std.kernel'
+import type Scheduler from 'std.scheduler'
+// --- JavaScript ---
+export default async ({ use, former }: Contract<Kernel>): Promise<Kernel> => {
+  if (!former) {
+    throw new Error("virtual kernel must refine a former kernel")
+  }
+  [[scheduler], kernel] = await Promise.all([use<[Scheduler]>('std.scheduler'), former()])
+  return import("./intern.js")
+}
+export let kernel: Kernel, scheduler: Scheduler
@@ -0,0 +1,40 @@
+// --- TypeScript ---
+import type Kernel from 'std.kernel'
+// --- JavaScript ---
+import { kernel, scheduler } from "./extern.js"
+
+export function isUnparented() {
+  return kernel.isUnparented()
+}
+
+export function now(): number {
+  return scheduler.now()
+}
+
+export function queueMicrotask(microtask: () => void): void {
+  scheduler.queueMicrotask(microtask)
+}
+
+export function queueMacrotask(macrotask: () => void): void {
+  scheduler.queueMacrotask(macrotask)
+}
+
+export function queueTimeout(ms: number, macrotask: () => void): () => void {
+  return scheduler.queueTimeout(ms, macrotask)
+}
+
+export function startWorker<Init>(
+  path: URL,
+  initial: Init,
+  transfer?: Kernel.Transferable[]
+): Promise<Kernel.Worker> {
+  return kernel.startWorker(path, initial, transfer)
+}
+
+export function decodeBase64URI(encoded: string): Promise<Uint8Array> {
+  return kernel.decodeBase64URI(encoded)
+}
+
+export function encodeBase64URI(decoded: Uint8Array, type?: string): Promise<string> {
+  return kernel.encodeBase64URI(decoded, type)
+}
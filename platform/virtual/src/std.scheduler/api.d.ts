@@ -0,0 +1,76 @@
+declare module 'std.scheduler' {
+  export default Scheduler
+  /**
+   * The scheduler service queues the tasks of a virtual kernel with a manually advanced clock.
+   * 
+   * The scheduler executes tasks in a deterministic order. Microtasks run before macrotasks and both run in order of
+   * scheduling. A timeout schedules its macrotask when the virtual clock reaches its due time. Timeouts with the same
+   * due time are scheduled in order of creation. The virtual clock only advances when it is told to do so.
+   * 
+   * Initially, the scheduler automatically executes scheduled microtasks and macrotasks, but not timeouts.
+   * A holding scheduler only executes tasks when it is stepped, flushed or advanced.
+   */
+  interface Scheduler {
+    /**
+     * Obtain the current time of the virtual clock.
+     * @returns Number of milliseconds since the scheduler started
+     */
+    now(): number
+    /**
+     * Count scheduled tasks, including timeouts that are not due yet.
+     * @returns Number of scheduled tasks
+     */
+    pending(): number
+    /**
+     * Test whether this scheduler is holding, such that it does not automatically execute scheduled tasks.
+     * @returns True if this scheduler is holding, otherwise false
+     */
+    isHolding(): boolean
+    /**
+     * Hold this scheduler. If it is already holding, do nothing.
+     */
+    hold(): void
+    /**
+     * Release this scheduler to automatically execute scheduled tasks again. If it is not holding, do nothing.
+     */
+    release(): void
+    /**
+     * Execute the next scheduled microtask or macrotask, if any.
+     * @returns True if a task was executed, otherwise false
+     * @throws When the executed task throws
+     */
+    step(): boolean
+    /**
+     * Execute scheduled microtasks and macrotasks, until no more tasks are scheduled without advancing the clock.
+     * @returns Number of executed tasks
+     * @throws When an executed task throws
+     */
+    flush(): number
+    /**
+     * Advance the virtual clock.
+     * The clock moves from one due time to the next, and scheduled tasks are flushed at every due time.
+     * @param ms Number of milliseconds to advance
+     * @returns Number of executed tasks
+     * @throws When the period is negative
+     * @throws When an executed task throws
+     */
+    advance(ms: number): number
+    /**
+     * Schedule a microtask.
+     * @param microtask Code to execute in microtask
+     */
+    queueMicrotask(microtask: () => void): void
+    /**
+     * Schedule a macrotask.
+     * @param macrotask Code to execute in macrotask
+     */
+    queueMacrotask(macrotask: () => void): void
+    /**
+     * Schedule a macrotask when the virtual clock has advanced with a timeout period.
+     * @param ms Timeout period in milliseconds
+     * @param macrotask Code to execute in macrotask
+     * @returns A function that cancels the scheduled macrotask, if it has not been executed yet
+     */
+    queueTimeout(ms: number, macrotask: () => void): () => void
+  }
+}
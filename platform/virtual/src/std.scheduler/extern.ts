@@ -0,0 +1,4 @@
+// --- TypeScript ---
+import type Scheduler from 'std.scheduler'
+// --- JavaScript ---
+export default (): Promise<Scheduler> => import("./intern.js")
@@ -0,0 +1,126 @@
+// --- TypeScript ---
+// a timeout schedules its macrotask at a due time
+interface Timeout {
+  readonly due: number
+  readonly macrotask: () => void
+}
+// --- JavaScript ---
+export function now(): number {
+  return clock
+}
+
+export function pending(): number {
+  return microtasks.length + macrotasks.length + timeouts.length
+}
+
+export function isHolding(): boolean {
+  return holding
+}
+
+export function hold(): void {
+  holding = true
+}
+
+export function release(): void {
+  if (holding) {
+    holding = false
+    drainAutomatically()
+  }
+}
+
+export function step(): boolean {
+  const task = microtasks.shift() ?? macrotasks.shift()
+  if (task) {
+    task()
+    return true
+  }
+  return false
+}
+
+export function flush(): number {
+  let count = 0
+  while (step()) {
+    ++count
+  }
+  return count
+}
+
+export function advance(ms: number): number {
+  if (!(ms >= 0)) {
+    throw new Error("cannot advance virtual clock with a negative period")
+  }
+  const target = clock + ms
+  let count = flush()
+  for (let timeout = timeouts[0]; timeout && timeout.due <= target; timeout = timeouts[0]) {
+    clock = timeout.due
+    // schedule macrotasks of all timeouts that are due at the same time
+    while (timeouts.length > 0 && timeouts[0].due === clock) {
+      macrotasks.push(timeouts.shift()!.macrotask)
+    }
+    count += flush()
+  }
+  clock = target
+  return count
+}
+
+export function queueMicrotask(microtask: () => void): void {
+  microtasks.push(microtask)
+  drainAutomatically()
+}
+
+export function queueMacrotask(macrotask: () => void): void {
+  macrotasks.push(macrotask)
+  drainAutomatically()
+}
+
+export function queueTimeout(ms: number, macrotask: () => void): () => void {
+  if (ms <= 0) {
+    // a timeout without period is an ordinary macrotask
+    const task = () => macrotask()
+    queueMacrotask(task)
+    return () => cancel(macrotasks, task)
+  }
+  const timeout: Timeout = { due: clock + ms, macrotask }
+  // insert after timeouts with the same or an earlier due time
+  const index = timeouts.findIndex(({ due }) => due > timeout.due)
+  timeouts.splice(index < 0 ? timeouts.length : index, 0, timeout)
+  return () => cancel(timeouts, timeout)
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// virtual time in milliseconds
+let clock = 0
+// a holding scheduler does not drain scheduled tasks automatically
+let holding = false
+// true if automatic drain is pending
+let willDrain = false
+// scheduled tasks in order of scheduling
+const microtasks: (() => void)[] = [], macrotasks: (() => void)[] = []
+// timeouts in order of due time
+const timeouts: Timeout[] = []
+// remove cancelled task, if it's still scheduled
+function cancel<T>(tasks: T[], task: T) {
+  const index = tasks.indexOf(task)
+  if (index >= 0) {
+    tasks.splice(index, 1)
+  }
+}
+// drain scheduled tasks in a real microtask
+function drainAutomatically() {
+  if (!holding && !willDrain) {
+    willDrain = true
+    globalThis.queueMicrotask(() => {
+      willDrain = false
+      if (!holding) {
+        try {
+          flush()
+        } finally {
+          // continue with remaining tasks when a task throws
+          if (microtasks.length + macrotasks.length > 0) {
+            drainAutomatically()
+          }
+        }
+      }
+    })
+  }
+}
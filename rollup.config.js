@@ -7,11 +7,13 @@ export default {
   input: await entryPoints([
     "src/boot.ts",
     "src/bindings.ts",
+    "src/mock.ts",
     "src/*/extern.ts",
     "src/*/intern.ts",
     "src/*/worker.ts",
     "src/*/main.ts",
     "src/*/datatype.ts",
+    "src/*/config.ts",
   ]),
   output: {
     sourcemap: true,
@@ -20,7 +22,8 @@ export default {
   },
   plugins: [
     typescript(),
-    terser()
+    // keep names of role classes and scenic code in theater snapshots, incidents and traces
+    terser({ keep_classnames: true, keep_fnames: true })
   ],
 }
 
@@ -2,6 +2,7 @@
 /// <reference path="./std.fn/api.d.ts" />
 /// <reference path="./std.future/api.d.ts" />
 /// <reference path="./std.fx/api.d.ts" />
+/// <reference path="./std.journal/api.d.ts" />
 /// <reference path="./std.kernel/api.d.ts" />
 /// <reference path="./std.loader/api.d.ts" />
 /// <reference path="./std.loop/api.d.ts" />
@@ -9,6 +10,7 @@
 /// <reference path="./std.syntax/api.d.ts" />
 /// <reference path="./std.system/api.d.ts" />
 /// <reference path="./std.theater/api.d.ts" />
+/// <reference path="./std.trace/api.d.ts" />
 declare module "dixlib" {
   import type Loader from 'std.loader'
   import type System from 'std.system'
@@ -19,6 +21,52 @@ declare module "dixlib" {
    */
   export default function startSystem(bundleStack: Loader.Bindings[]): Promise<System>
 }
+declare module "dixlib/virtual" {
+  /**
+   * Id of bindings that refine the kernel with the virtual clock of the scheduler service.
+   */
+  export const id: string
+  /**
+   * Virtual kernel implementation and scheduler service.
+   */
+  export const service: ServiceMap
+}
+declare module "dixlib/mock" {
+  import type Loader from 'std.loader'
+  /**
+   * Create a mock contract to test a contractor in isolation, without booting a system.
+   * @param name Name of service that the contractor should provide
+   * @param options Optional fakes, former contractors and configuration settings
+   * @returns A mock contract
+   */
+  export function mockContract<S>(name: string, options?: MockOptions<S>): MockContract<S>
+  /**
+   * Options of a mock contract.
+   */
+  interface MockOptions<S> {
+    /**
+     * Fake providers of used services by service name.
+     */
+    readonly fakes?: { readonly [name: string]: unknown }
+    /**
+     * Former contractors of the refinement chain, from upper to lower layers.
+     */
+    readonly formers?: Loader.Contractor<S>[]
+    /**
+     * Configuration settings, which are not checked against a type.
+     */
+    readonly configuration?: unknown
+  }
+  /**
+   * A mock contract uses fakes instead of service providers.
+   */
+  interface MockContract<S> extends Contract<S> {
+    /**
+     * Names that were passed to use() in order of request, including requests of former contractors.
+     */
+    readonly requests: readonly string[]
+  }
+}
 interface ImportMeta {
   /**
    * Module location e.g., a file URL or http/https URL.
@@ -35,14 +83,27 @@ interface Contract<S> {
   readonly name: string
   /**
    * Use service providers.
-   * @param names Service names
+   * A service name may be followed by a version range of its specification e.g., 'std.theater@^1.2.0'.
+   * @param names Service names, optionally with version ranges
    * @returns A promise of an array with the requested providers
+   * @throws When the specification of a used service does not satisfy the version range
    */
   use<P extends unknown[]>(...names: string[]): Promise<P>
   /**
    * If the contract is a refinement, wait for former contractor to create a provider.
    */
   former?(): Promise<S>
+  /**
+   * Read configuration settings of the service.
+   * The config modules of bundles with a configuration aspect export the configuration settings of the service.
+   * Settings in upper bundles override settings in lower bundles, except that objects are merged recursively.
+   * The merged settings are checked against a data type, which is evaluated in the type definitions of the service.
+   * The contractor uses the data service when it reads the configuration.
+   * @param type Source text of a type expression
+   * @returns A promise of the immutable configuration settings
+   * @throws When the merged configuration settings do not match the type
+   */
+  configuration<C>(type: string): Promise<C>
 }
 /**
  * Cross-cutting service aspects.
@@ -5,11 +5,13 @@ export const service: ServiceMap = {
   'std.fn': { specification: true, implementation: true },
   'std.future': { specification: true, implementation: true },
   'std.fx': { specification: true, implementation: true },
+  'std.journal': { specification: true, implementation: true },
   'std.kernel': { specification: true, implementation: true },
   'std.loader': { specification: true, },
   'std.loop': { specification: true, implementation: true },
   'std.news': { specification: true, implementation: true },
   'std.syntax': { specification: true, implementation: true },
   'std.system': { specification: true, implementation: true },
-  'std.theater': { specification: true, implementation: true },
+  'std.theater': { specification: true, implementation: true, typedefs: true },
+  'std.trace': { specification: true, implementation: true },
 }
@@ -1,4 +1,5 @@
 // --- TypeScript ---
+import type Data from 'std.data'
 import type Loader from 'std.loader'
 import type System from 'std.system'
 // lazy service providers are instantiated on demand
@@ -16,7 +17,25 @@ interface Layer {
   readonly aspects: {
     readonly [A in ServiceAspect]?: Set<string>
   }
+  // instantiation deadlines per service
+  readonly deadlines: { readonly [name: string]: number }
+  // declared versions per service
+  readonly versions: { readonly [name: string]: Loader.Versions }
 }
+// extern module exports contractor of service provider
+interface ExternModule<S> {
+  readonly default: Loader.Contractor<S>
+}
+// config module exports configuration settings of a service
+interface ConfigModule {
+  readonly configuration?: Data.Structure
+}
+// semantic version with major, minor and patch numbers, and prerelease identifiers
+type Version = readonly [major: number, minor: number, patch: number, prerelease: readonly string[]]
+// version comparison with an operator
+type Comparator = readonly [operator: "<" | "<=" | ">" | ">=" | "=", version: Version]
+// a range is a disjunction of comparator conjunctions
+type Range = readonly (readonly Comparator[])[]
 // edges in dependency graph
 interface DependencyEdges {
   readonly direct: Set<string>
@@ -48,7 +67,7 @@ async function provideSystem() {
   return provide<System>('std.system')
 }
 function createBootLoader(bundles: Loader.Bindings[]) {
-  const loader: Loader = { provide, query }
+  const loader: Loader = { provide, query, queryExterns, reload, diagnose, push, pop }
   // service loader stacks multiple layers on top of each other
   const stack = new Map<string, Layer>()
   // all service aspects that are bound in at least one layer
@@ -57,22 +76,60 @@ function createBootLoader(bundles: Loader.Bindings[]) {
   const specifications = new Set<string>()
   // keep track of instantiated service providers
   const instantiated: { [name: string]: Promise<unknown> } = Object.create(null)
+  // states of instantiated service providers
+  const states: { [name: string]: "instantiating" | "instantiated" } = Object.create(null)
+  // failures of uninstantiated service providers, which are retried when the service is provided again
+  const failures: { [name: string]: Error } = Object.create(null)
   // lazy providers are uninstantiated
   const uninstantiated: { [name: string]: Lazy<unknown> } = Object.create(null)
   // add lazy provider of this loader service
   uninstantiated['std.loader'] = () => Promise.resolve(() => Promise.resolve(loader))
   // direct and indirect dependencies in dependency graph for meaningful error reporting
   const dependencyGraph: { [name: string]: DependencyEdges } = Object.create(null)
+  // preloaded extern modules of service implementations per bindings id, from lower to upper layers
+  const externModules: { [name: string]: Map<string, ExternImport> } = Object.create(null)
+  // count reloads to bypass module cache
+  let reloads = 0
   function provide<S>(name: string): Promise<S> {
+    return provideAlong<S>([], name)
+  }
+  // provide service at the end of a use chain
+  function provideAlong<S>(chain: string[], name: string): Promise<S> {
     if (name in instantiated) {
       // provide instantiated provider once and only once
       return instantiated[name] as Promise<S>
     } else if (name in uninstantiated) {
       // instantiate lazy provider
-      const lazy = uninstantiated[name] as Lazy<S>
+      const lazy = uninstantiated[name] as Lazy<S>, useChain = [...chain, name]
       dependencyGraph[name] = { direct: new Set(), indirect: new Set() }
       delete uninstantiated[name]
-      return instantiated[name] = instantiate(name, lazy)
+      delete failures[name]
+      states[name] = "instantiating"
+      const instantiating: Promise<S> = instantiated[name] = meetDeadline(name, instantiate(name, lazy, useChain)).then(
+        provider => {
+          // ignore settlement if provider has been reloaded in the meantime
+          if (instantiated[name] === instantiating) {
+            states[name] = "instantiated"
+          }
+          return provider
+        },
+        blooper => {
+          // a failure in a dependency already reports the use chain that led to it
+          const failure = instantiationFailures.has(blooper) ? blooper as Error : new Error(
+            `cannot instantiate service '${name}' in use chain '${useChain.join("'->'")}'`, { cause: blooper }
+          )
+          instantiationFailures.add(failure)
+          if (instantiated[name] === instantiating) {
+            // retract failed provider, such that providing the service again retries the instantiation
+            delete instantiated[name]
+            delete states[name]
+            failures[name] = failure
+            uninstantiated[name] = retry(name, lazy as Lazy<unknown>)
+          }
+          throw failure
+        }
+      )
+      return instantiating
     } else {
       return Promise.reject(new Error(`cannot provide unknown service '${name}'`))
     }
@@ -112,27 +169,336 @@ function createBootLoader(bundles: Loader.Bindings[]) {
       }
     }
   }
+  // query extern modules of service implementations
+  function* queryExterns(): IterableIterator<Loader.ExternResult> {
+    // extern modules of a service are ordered by bindings id, from lower to upper layers
+    for (const name of Object.keys(externModules).sort()) {
+      for (const [id, externImport] of externModules[name]) {
+        yield new ExternResult(name, id, externImport)
+      }
+    }
+  }
+  // diagnose states and dependencies of service providers
+  function diagnose(): Loader.Diagnosis {
+    const services: ServiceDiagnosis[] = []
+    for (const name in uninstantiated) {
+      if (failures[name]) {
+        services.push(new ServiceDiagnosis(name, "failed", [...dependencyGraph[name].direct], []))
+      } else {
+        services.push(new ServiceDiagnosis(name, "uninstantiated", [], []))
+      }
+    }
+    for (const name in instantiated) {
+      const { direct } = dependencyGraph[name], indirect = new Set<string>()
+      // indirect dependencies are reachable over direct dependencies of direct dependencies
+      for (const reachable = [...direct]; reachable.length;) {
+        for (const dependency of dependencyGraph[reachable.pop()!]?.direct ?? []) {
+          if (!direct.has(dependency) && !indirect.has(dependency)) {
+            indirect.add(dependency)
+            reachable.push(dependency)
+          }
+        }
+      }
+      services.push(new ServiceDiagnosis(name, states[name], [...direct], [...indirect]))
+    }
+    return new Diagnosis(services.sort((left, right) => left.name < right.name ? -1 : 1))
+  }
+  // push layer with bindings on top of the stack
+  function push({ id, service, deadlines = {}, versions = {}, preloading = "eager" }: Loader.Bindings): void {
+    if (stack.has(id)) {
+      throw new Error(`invalid bindings with duplicate id "${id}"`)
+    }
+    // group services of bindings by service aspects
+    const aspects: { [A in ServiceAspect]?: Set<string> } = Object.create(null), bound = new Set<ServiceAspect>()
+    for (const name in service) {
+      for (const key in service[name]) {
+        const aspect = key as ServiceAspect
+        bound.add(aspect)
+        if (service[name][aspect]) {
+          const names = aspects[aspect] ??= new Set()
+          names.add(name)
+        }
+      }
+    }
+    const { specification, implementation } = aspects
+    // validate service specifications
+    if (specification) {
+      const intersection = specifications.intersection(specification)
+      if (intersection.size > 0) {
+        throw new Error(`duplicate service speficiations for '${[...intersection].join("','")}' in bundle ${id}`)
+      }
+    }
+    // validate service implementations
+    if (implementation) {
+      // 'std.loader' is hardcoded and cannot be refined
+      if (implementation.has('std.loader')) {
+        throw new Error(`invalid provider of system loader service in bundle ${id}`)
+      }
+      const refined = [...implementation].filter(name => name in instantiated)
+      if (refined.length > 0) {
+        throw new Error(`cannot refine instantiated providers of '${refined.join("','")}' in bundle ${id}`)
+      }
+    }
+    // validate instantiation deadlines
+    for (const name in deadlines) {
+      const deadline = deadlines[name]
+      if (!(deadline > 0)) {
+        throw new Error(`invalid deadline ${deadline} for service '${name}' in bundle ${id}`)
+      }
+    }
+    // validate preloading policies
+    const policies: { [name: string]: Loader.Preloading } = Object.create(null)
+    for (const name of implementation ?? []) {
+      const policy = policies[name] = typeof preloading === "string" ? preloading : preloading[name] ?? "eager"
+      if (!preloadingPolicies.has(policy)) {
+        throw new Error(`invalid preloading policy "${policy}" for service '${name}' in bundle ${id}`)
+      }
+    }
+    // validate versions against versions in lower layers
+    const layer: Layer = { id, aspects, deadlines, versions }
+    checkVersions([...stack.values(), layer])
+    // push new layer on stack
+    stack.set(id, layer)
+    bound.forEach(aspect => boundAspects.add(aspect))
+    specification?.forEach(name => specifications.add(name))
+    // install lazy service providers
+    for (const name of implementation ?? []) {
+      // preload extern module that contains default export of contractor, according to preloading policy
+      const externImport = new ExternImport(new URL(`${name}/extern.js`, id).href, policies[name])
+      const lazy = () => externImport.import().then(m => m.default)
+      // multiple implementation providers of same service are chained together from upper to lower layers
+      lazy.former = uninstantiated[name]
+      uninstantiated[name] = lazy
+      // remember preloaded extern module for reloads
+      const preloaded = externModules[name] ??= new Map()
+      preloaded.set(id, externImport)
+    }
+  }
+  // pop top layer from the stack
+  function pop(id: string): void {
+    const layer = stack.get(id)
+    if (!layer) {
+      throw new Error(`cannot pop unknown bindings "${id}"`)
+    }
+    if ([...stack.keys()].at(-1) !== id) {
+      throw new Error(`cannot pop bindings "${id}" below top of stack`)
+    }
+    const { specification, implementation } = layer.aspects
+    const used = [...implementation ?? []].filter(name => name in instantiated)
+    if (used.length > 0) {
+      throw new Error(`cannot pop bindings "${id}" while providers of '${used.join("','")}' are in use`)
+    }
+    stack.delete(id)
+    specification?.forEach(name => specifications.delete(name))
+    // aspects remain bound if other layers bind them
+    boundAspects.clear()
+    for (const { aspects } of stack.values()) {
+      Object.keys(aspects).forEach(aspect => boundAspects.add(aspect as ServiceAspect))
+    }
+    // fall back to lazy providers in lower layers
+    for (const name of implementation ?? []) {
+      const preloaded = externModules[name]
+      preloaded.delete(id)
+      delete failures[name]
+      delete dependencyGraph[name]
+      if (preloaded.size > 0) {
+        uninstantiated[name] = relink(name)
+      } else {
+        delete externModules[name]
+        delete uninstantiated[name]
+      }
+    }
+  }
+  // reload implementation of a service and provide its dependents again
+  async function reload<S>(name: string): Promise<S> {
+    if (![...stack.values()].some(({ aspects }) => aspects.reloadable?.has(name))) {
+      throw new Error(`cannot reload service '${name}' without reloadable binding`)
+    }
+    const preloaded = externModules[name]
+    if (!preloaded) {
+      throw new Error(`cannot reload service '${name}' without implementation`)
+    }
+    // pending instantiations of the service and its dependents should settle before they are retracted
+    await Promise.allSettled(affectedBy(name).map(affected => instantiated[affected]))
+    // import extern modules again with a unique query to bypass the module cache
+    const reloading = `?reload=${++reloads}`
+    for (const [id, { policy }] of preloaded) {
+      preloaded.set(id, new ExternImport(new URL(`${name}/extern.js${reloading}`, id).href, policy))
+    }
+    // retract instantiated providers of the service and its dependents
+    const retracted = affectedBy(name)
+    for (const affected of retracted) {
+      delete instantiated[affected]
+      delete states[affected]
+      delete failures[affected]
+      delete dependencyGraph[affected]
+      uninstantiated[affected] = relink(affected)
+    }
+    // contractors of dependents use the reloaded service provider when they are provided again
+    const [provider] = await Promise.all(retracted.map(provide))
+    return provider as S
+  }
+  // names of a service and all services that directly or indirectly depend on it
+  function affectedBy(name: string): string[] {
+    const affected = new Set([name])
+    // indirect edges may be incomplete when a dependency was not instantiated yet, so follow direct edges instead
+    for (let size = 0; size < affected.size;) {
+      size = affected.size
+      for (const dependent in dependencyGraph) {
+        if (!affected.has(dependent) && !dependencyGraph[dependent].direct.isDisjointFrom(affected)) {
+          affected.add(dependent)
+        }
+      }
+    }
+    return [...affected]
+  }
+  // chain lazy providers of preloaded extern modules from upper to lower layers
+  function relink(name: string): Lazy<unknown> {
+    let lazy: Lazy<unknown> | undefined = void 0
+    for (const externImport of externModules[name].values()) {
+      const upper: Lazy<unknown> = () => externImport.import().then(m => m.default)
+      upper.former = lazy
+      lazy = upper
+    }
+    return lazy!
+  }
+  // prepare lazy provider to retry a failed instantiation
+  function retry(name: string, lazy: Lazy<unknown>): Lazy<unknown> {
+    const preloaded = externModules[name]
+    if (!preloaded) {
+      // the lazy provider of this loader service does not depend on extern modules
+      return lazy
+    }
+    // import extern modules again, because a failed import should not be cached
+    for (const [id, { href, policy }] of preloaded) {
+      preloaded.set(id, new ExternImport(href, policy))
+    }
+    return relink(name)
+  }
+  // check whether versions of implementations and requirements are compatible with specification versions
+  function checkVersions(layers: Layer[]) {
+    // find versions of service specifications
+    const specified: { [name: string]: [id: string, text: string, version: Version] } = Object.create(null)
+    for (const { id, aspects, versions } of layers) {
+      for (const name in versions) {
+        const text = versions[name].specification
+        if (text !== void 0 && aspects.specification?.has(name)) {
+          specified[name] = [id, text, parseVersion(text, `specification of '${name}' in bundle ${id}`)]
+        }
+      }
+    }
+    for (const { id, aspects, versions } of layers) {
+      for (const name in versions) {
+        const { implementation, requires } = versions[name]
+        if (implementation !== void 0 && aspects.implementation?.has(name)) {
+          // an implementation is compatible with a specification of the same major version
+          const version = parseVersion(implementation, `implementation of '${name}' in bundle ${id}`)
+          const specification = specified[name]
+          if (specification && !satisfies(version, parseRange(`^${specification[1]}`))) {
+            throw new Error(`incompatible implementation '${name}@${implementation}' in bundle ${id} ` +
+              `with specification '${name}@${specification[1]}' in bundle ${specification[0]}`)
+          }
+        }
+        for (const required in requires) {
+          const range = requires[required], specification = specified[required]
+          const parsed = parseRange(range, `requirement '${required}' of '${name}' in bundle ${id}`)
+          if (specification && !satisfies(specification[2], parsed)) {
+            throw new Error(`unsatisfiable requirement '${required}@${range}' of '${name}' in bundle ${id} ` +
+              `by specification '${required}@${specification[1]}' in bundle ${specification[0]}`)
+          }
+        }
+      }
+    }
+  }
+  // check range of use chain against specification version
+  function checkRange(user: string, required: string, range: string) {
+    for (const { id, aspects, versions } of stack.values()) {
+      const text = versions[required]?.specification
+      if (text !== void 0 && aspects.specification?.has(required)) {
+        if (!satisfies(parseVersion(text), parseRange(range, `use of '${required}' by '${user}'`))) {
+          throw new Error(`unsatisfiable use '${required}@${range}' of '${user}' ` +
+            `by specification '${required}@${text}' in bundle ${id}`)
+        }
+        return
+      }
+    }
+    // validate syntax of range when specification is unversioned
+    parseRange(range, `use of '${required}' by '${user}'`)
+  }
+  // deadlines in upper layers override deadlines in lower layers
+  function deadlineOf(name: string): number | undefined {
+    let deadline: number | undefined = void 0
+    for (const { deadlines } of stack.values()) {
+      deadline = deadlines[name] ?? deadline
+    }
+    return deadline
+  }
+  // reject instantiation of service provider when its deadline expires
+  function meetDeadline<S>(name: string, instantiating: Promise<S>): Promise<S> {
+    const deadline = deadlineOf(name)
+    if (deadline === void 0) {
+      return instantiating
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined = void 0
+    const expiration = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`instantiation deadline of ${deadline} ms expired`)), deadline)
+    })
+    return Promise.race([instantiating, expiration]).finally(() => clearTimeout(timer))
+  }
   // instantiate a service from a lazy provider
-  async function instantiate<S>(name: string, lazy: Lazy<S>): Promise<S> {
+  async function instantiate<S>(name: string, lazy: Lazy<S>, useChain: string[]): Promise<S> {
     // construction of former provider, if any
     const { former } = lazy
     lazy.former = void 0
     // wait for contractor to provide the contract
     const contractor = await lazy()
     let providingFormer: Promise<S> | undefined = void 0
+    // merged configuration settings are read at most once
+    let configuring: Promise<Data.Structure> | undefined = void 0
+    // configuration types are evaluated in one space per provider
+    let spacing: Promise<Data.Space> | undefined = void 0
+    // use providers of other services
+    function use<P extends unknown[]>(...names: string[]): Promise<P> {
+      // register direct dependencies on other services
+      const { direct } = dependencyGraph[name], dependencies: string[] = []
+      for (const versioned of names) {
+        // a name with a version range checks the version of the service specification
+        const separator = versioned.indexOf("@"), dependency = separator < 0 ? versioned :
+          versioned.slice(0, separator)
+        if (separator >= 0) {
+          checkRange(name, dependency, versioned.slice(separator + 1))
+        }
+        // fail if a dependency cycle is detected
+        addDependency(direct, name, dependency)
+        dependencies.push(dependency)
+      }
+      return Promise.all(dependencies.map(dependency => provideAlong(useChain, dependency))) as Promise<P>
+    }
+    // read configuration settings of this service
+    async function configuration<C>(type: string): Promise<C> {
+      // the data service checks the configuration
+      const [data] = await use<[Data]>('std.data')
+      const configured = await (configuring ??= configure(name))
+      const space = await (spacing ??= inflateSpace(data))
+      try {
+        // import fails if the configuration does not obey the type
+        space.import(type, configured)
+      } catch (problem) {
+        throw new Error(`invalid configuration of service '${name}'`, { cause: problem })
+      }
+      return configured as C
+    }
+    // inflate space with type definitions of this service, if any
+    async function inflateSpace(data: Data): Promise<Data.Space> {
+      const typedefs = [...query({ aspects: ["typedefs"] })].some(result => result.hasBindingFor(name))
+      return data.inflate(typedefs ? await data.loadTypeDefinitions(name) : {})
+    }
     const provider = await contractor({
       name,
       // instantiate former provider in lower layer at most once
-      former: former ? () => providingFormer ??= instantiate(name, former) : void 0,
-      use<P extends unknown[]>(...names: string[]): Promise<P> {
-        // register direct dependencies on other services
-        const { direct } = dependencyGraph[name]
-        for (const dependency of names) {
-          // fail if a dependency cycle is detected
-          addDependency(direct, name, dependency)
-        }
-        return Promise.all(names.map(provide)) as Promise<P>
-      },
+      former: former ? () => providingFormer ??= instantiate(name, former, useChain) : void 0,
+      use,
+      configuration,
     })
     // determine service operations
     const operations = Object.create(null, { [Symbol.toStringTag]: { value: name } })
@@ -149,6 +515,23 @@ function createBootLoader(bundles: Loader.Bindings[]) {
     // immutable provider with service operations
     return Object.preventExtensions(operations)
   }
+  // merge configuration settings of a service from lower to upper layers
+  async function configure(name: string): Promise<Data.Structure> {
+    const locations: string[] = []
+    for (const { id, aspects } of stack.values()) {
+      if (aspects.configuration?.has(name)) {
+        locations.push(new URL(`${name}/config.js`, id).href)
+      }
+    }
+    const modules: ConfigModule[] = await Promise.all(locations.map(location => import(location)))
+    let merged: Data.Structure = null
+    for (const { configuration } of modules) {
+      if (configuration !== void 0) {
+        merged = mergeSettings(merged, configuration)
+      }
+    }
+    return freezeSettings(merged)
+  }
   // register direct or indirect service dependency
   function addDependency(set: Set<String>, from: string, to: string) {
     if (!set.has(to)) {
@@ -181,51 +564,193 @@ function createBootLoader(bundles: Loader.Bindings[]) {
     }
   }
   // build bundle stack with given bindings
-  for (const { id, service } of bundles) {
-    if (stack.has(id)) {
-      throw new Error(`invalid bindings with duplicate id "${id}"`)
+  for (const bindings of bundles) {
+    push(bindings)
+  }
+  return loader
+}
+// upper settings override lower settings, except that objects are merged recursively
+function mergeSettings(lower: Data.Structure, upper: Data.Structure): Data.Structure {
+  if (isSettingsObject(lower) && isSettingsObject(upper)) {
+    const merged: { [key: string]: Data.Structure } = { ...lower }
+    for (const key in upper) {
+      merged[key] = Object.hasOwn(lower, key) ? mergeSettings(lower[key], upper[key]) : upper[key]
     }
-    // group services of bindings by service aspects
-    const aspects: { [A in ServiceAspect]?: Set<string> } = Object.create(null)
-    for (const name in service) {
-      for (const key in service[name]) {
-        const aspect = key as ServiceAspect
-        boundAspects.add(aspect)
-        if (service[name][aspect]) {
-          const names = aspects[aspect] ??= new Set()
-          names.add(name)
-        }
-      }
+    return merged
+  } else {
+    return upper
+  }
+}
+function isSettingsObject(settings: Data.Structure): settings is { [key: string]: Data.Structure } {
+  return typeof settings === "object" && settings !== null && !Array.isArray(settings)
+}
+// deeply frozen copy of settings, which leaves the settings exported by config modules untouched
+function freezeSettings(settings: Data.Structure): Data.Structure {
+  if (Array.isArray(settings)) {
+    return Object.freeze(settings.map(freezeSettings)) as Data.Structure[]
+  } else if (isSettingsObject(settings)) {
+    const copy: { [key: string]: Data.Structure } = {}
+    for (const key of Object.keys(settings)) {
+      copy[key] = freezeSettings(settings[key])
     }
-    // push new layer on stack
-    stack.set(id, { id, aspects })
-    const { specification, implementation } = aspects
-    // validate service specifications
-    if (specification) {
-      const intersection = specifications.intersection(specification)
-      if (intersection.size > 0) {
-        throw new Error(`duplicate service speficiations for '${[...intersection].join("','")}' in bundle ${id}`)
-      }
-      specification.forEach(name => specifications.add(name))
+    return Object.freeze(copy)
+  } else {
+    return settings
+  }
+}
+// parse semantic version
+function parseVersion(text: string, location?: string): Version {
+  const match = versionRegex.exec(text)
+  if (!match) {
+    throw new Error(`invalid version "${text}"${location ? ` for ${location}` : ""}`)
+  }
+  const [, major, minor, patch, prerelease] = match
+  return [Number(major), Number(minor), Number(patch), prerelease ? prerelease.split(".") : []]
+}
+const versionRegex = new RegExp(
+  "^(0|[1-9]\\d*)\\.(0|[1-9]\\d*)\\.(0|[1-9]\\d*)" +
+  "(?:-([0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*))?(?:\\+[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?$"
+)
+// compare versions according to semantic versioning precedence
+function compareVersions([lmajor, lminor, lpatch, lpre]: Version, [rmajor, rminor, rpatch, rpre]: Version): number {
+  const numeric = Math.sign(lmajor - rmajor || lminor - rminor || lpatch - rpatch)
+  if (numeric || lpre.length === 0 && rpre.length === 0) {
+    return numeric
+  } else if (lpre.length === 0 || rpre.length === 0) {
+    // a prerelease has lower precedence than the normal version
+    return lpre.length === 0 ? 1 : -1
+  }
+  for (let i = 0; i < lpre.length && i < rpre.length; ++i) {
+    const left = lpre[i], right = rpre[i]
+    if (left !== right) {
+      const leftNumeric = /^\d+$/.test(left), rightNumeric = /^\d+$/.test(right)
+      // numeric identifiers have lower precedence than alphanumeric identifiers
+      return leftNumeric && rightNumeric ? Math.sign(Number(left) - Number(right)) :
+        leftNumeric ? -1 : rightNumeric ? 1 : left < right ? -1 : 1
     }
-    // install lazy service providers
-    if (implementation) {
-      // 'std.loader' is hardcoded and cannot be refined
-      if (implementation.has('std.loader')) {
-        throw new Error(`invalid provider of system loader service in bundle ${id}`)
+  }
+  return Math.sign(lpre.length - rpre.length)
+}
+// parse version range with caret, tilde, comparison and x-ranges, separated by whitespace (and) or || (or)
+// build metadata of a version in a range is ignored, just like it is ignored in version precedence
+function parseRange(text: string, location?: string): Range {
+  return text.split("||").map(conjunction => {
+    const comparators: Comparator[] = []
+    for (const term of conjunction.trim().split(/\s+/)) {
+      const match = rangeTermRegex.exec(term)
+      if (!match) {
+        throw new Error(`invalid version range "${text}"${location ? ` for ${location}` : ""}`)
       }
-      for (const name of implementation) {
-        // preload extern module that contains default export of contractor
-        const preloading = import(new URL(`${name}/extern.js`, id).href)
-        const lazy = () => preloading.then(m => m.default)
-        // multiple implementation providers of same service are chained together from upper to lower layers
-        lazy.former = uninstantiated[name]
-        uninstantiated[name] = lazy
+      const [, operator = "", ...parts] = match
+      // count numeric parts of a partial version
+      const given = parts.slice(0, 3).findIndex(part => part === void 0 || /^[x*]$/i.test(part))
+      const n = given < 0 ? 3 : given, prerelease = n === 3 && parts[3] ? parts[3].split(".") : []
+      const [major, minor, patch] = parts.slice(0, 3).map((part, i) => i < n ? Number(part) : 0)
+      const lower: Version = [major, minor, patch, prerelease]
+      // upper bound of a partial version increments its last given part
+      const bump = (k: number): Version =>
+        k <= 0 ? [major + 1, 0, 0, []] : k === 1 ? [major, minor + 1, 0, []] : [major, minor, patch + 1, []]
+      if (n === 0) {
+        // wildcard does not constrain the version
+      } else if (operator === "^") {
+        const significant = major > 0 || n === 1 ? 0 : minor > 0 || n === 2 ? 1 : 2
+        comparators.push([">=", lower], ["<", bump(significant)])
+      } else if (operator === "~") {
+        comparators.push([">=", lower], ["<", bump(n === 1 ? 0 : 1)])
+      } else if (operator === ">") {
+        comparators.push(n === 3 ? [">", lower] : [">=", bump(n - 1)])
+      } else if (operator === "<=") {
+        comparators.push(n === 3 ? ["<=", lower] : ["<", bump(n - 1)])
+      } else if (operator === ">=" || operator === "<") {
+        comparators.push([operator, lower])
+      } else if (n === 3) {
+        comparators.push(["=", lower])
+      } else {
+        comparators.push([">=", lower], ["<", bump(n - 1)])
       }
     }
+    return comparators
+  })
+}
+const rangeTermRegex = new RegExp(
+  "^(\\^|~|>=|<=|>|<|=)?(0|[1-9]\\d*|[x*])(?:\\.(0|[1-9]\\d*|[x*])" +
+  "(?:\\.(0|[1-9]\\d*|[x*])(?:-([0-9A-Za-z-.]+))?(?:\\+[0-9A-Za-z-.]+)?)?)?$", "i"
+)
+// test whether version satisfies some range
+function satisfies(version: Version, range: Range): boolean {
+  return range.some(comparators => comparators.every(([operator, bound]) => {
+    const comparison = compareVersions(version, bound)
+    switch (operator) {
+      case "<": return comparison < 0
+      case "<=": return comparison <= 0
+      case ">": return comparison > 0
+      case ">=": return comparison >= 0
+      case "=": return comparison === 0
+    }
+  }))
+}
+// import of an extern module according to a preloading policy
+const preloadingPolicies = new Set<Loader.Preloading>(["eager", "lazy", "idle"])
+class ExternImport {
+  readonly #href: string
+  readonly #policy: Loader.Preloading
+  // promise to import extern module after it has been fetched
+  #importing: Promise<ExternModule<unknown>> | undefined
+  // true after the extern module has been imported successfully
+  #fetched: boolean
+  constructor(href: string, policy: Loader.Preloading) {
+    this.#href = href
+    this.#policy = policy
+    this.#importing = void 0
+    this.#fetched = false
+    if (policy === "eager") {
+      this.#preload()
+    } else if (policy === "idle") {
+      whenIdle(() => this.#preload())
+    }
+  }
+  public get href() { return this.#href }
+  public get policy() { return this.#policy }
+  public get isFetched() { return this.#fetched }
+  public import(): Promise<ExternModule<unknown>> {
+    return this.#importing ??= import(this.#href).then(externModule => {
+      this.#fetched = true
+      return externModule
+    })
+  }
+  #preload() {
+    // a failed import is reported when the service is provided
+    this.import().catch(() => { })
+  }
+}
+// run callback when the environment is idle, or as soon as possible if idle callbacks are not supported
+function whenIdle(callback: () => void) {
+  const requestIdleCallback: ((callback: () => void) => unknown) | undefined =
+    Reflect.get(globalThis, "requestIdleCallback")
+  if (requestIdleCallback) {
+    requestIdleCallback.call(globalThis, callback)
+  } else {
+    setTimeout(callback, 0)
   }
-  return loader
 }
+// query result of an extern module
+class ExternResult implements Loader.ExternResult {
+  readonly #serviceName: string
+  readonly #id: string
+  readonly #externImport: ExternImport
+  constructor(serviceName: string, id: string, externImport: ExternImport) {
+    this.#serviceName = serviceName
+    this.#id = id
+    this.#externImport = externImport
+  }
+  public get serviceName() { return this.#serviceName }
+  public get bundle() { return this.#id }
+  public get location() { return this.#externImport.href }
+  public get preloading() { return this.#externImport.policy }
+  public get isFetched() { return this.#externImport.isFetched }
+}
+// errors of failed instantiations
+const instantiationFailures = new WeakSet<object>()
 // query result at certain aspect and bindings id
 const emptyNames = new Set<string>()
 class QueryResult implements Loader.QueryResult {
@@ -245,3 +770,58 @@ class QueryResult implements Loader.QueryResult {
     return this.#serviceNames.has(serviceName)
   }
 }
+// diagnosis of service providers in a loader
+class Diagnosis implements Loader.Diagnosis {
+  readonly #services: ServiceDiagnosis[]
+  constructor(services: ServiceDiagnosis[]) {
+    this.#services = services
+  }
+  public get size() { return this.#services.length }
+  public get services() { return this.#services[Symbol.iterator]() }
+  public render(format: "dot" | "json"): string {
+    switch (format) {
+      case "dot": {
+        const lines = ["digraph services {"]
+        for (const { name, state, direct } of this.#services) {
+          lines.push(`  "${name}" [${dotStyles[state]}];`)
+          for (const dependency of direct) {
+            lines.push(`  "${name}" -> "${dependency}";`)
+          }
+        }
+        lines.push("}")
+        return lines.join("\n")
+      }
+      case "json": {
+        const graph: { [name: string]: { state: Loader.ProviderState, direct: string[], indirect: string[] } } = {}
+        for (const { name, state, direct, indirect } of this.#services) {
+          graph[name] = { state, direct: [...direct], indirect: [...indirect] }
+        }
+        return JSON.stringify(graph, null, 2)
+      }
+      default: throw new Error(`cannot render diagnosis in unknown format "${format}"`)
+    }
+  }
+}
+// node attributes per provider state in DOT format
+const dotStyles: { readonly [S in Loader.ProviderState]: string } = {
+  uninstantiated: "style=dashed",
+  instantiating: "style=dotted",
+  instantiated: "style=solid",
+  failed: "color=red",
+}
+class ServiceDiagnosis implements Loader.ServiceDiagnosis {
+  readonly #name: string
+  readonly #state: Loader.ProviderState
+  readonly #direct: string[]
+  readonly #indirect: string[]
+  constructor(name: string, state: Loader.ProviderState, direct: string[], indirect: string[]) {
+    this.#name = name
+    this.#state = state
+    this.#direct = direct.sort()
+    this.#indirect = indirect.sort()
+  }
+  public get name() { return this.#name }
+  public get state() { return this.#state }
+  public get direct() { return this.#direct[Symbol.iterator]() }
+  public get indirect() { return this.#indirect[Symbol.iterator]() }
+}
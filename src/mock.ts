@@ -0,0 +1,47 @@
+// --- TypeScript ---
+import type Loader from 'std.loader'
+import type { MockContract, MockOptions } from 'dixlib/mock'
+// --- JavaScript ---
+/**
+ * Create a mock contract to test a contractor in isolation, without booting a system.
+ * @param name Name of service that the contractor should provide
+ * @param options Optional fakes, former contractors and configuration settings
+ * @returns A mock contract
+ */
+export function mockContract<S>(name: string, options: MockOptions<S> = {}): MockContract<S> {
+  const { fakes = {}, formers = [], configuration } = options
+  return createContract(name, fakes, formers, configuration, [])
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+function createContract<S>(
+  name: string,
+  fakes: { readonly [name: string]: unknown },
+  formers: Loader.Contractor<S>[],
+  settings: unknown,
+  // contracts in a refinement chain share their requests
+  requests: string[]
+): MockContract<S> {
+  const [formerContractor, ...lowerContractors] = formers
+  let providingFormer: Promise<S> | undefined = void 0
+  return {
+    name,
+    requests,
+    // instantiate former provider at most once, like a loader does
+    former: formerContractor ? () => providingFormer ??=
+      formerContractor(createContract(name, fakes, lowerContractors, settings, requests)) : void 0,
+    use<P extends unknown[]>(...names: string[]): Promise<P> {
+      requests.push(...names)
+      // strip version ranges from service names
+      const serviceNames = names.map(versioned => versioned.split("@")[0])
+      const unfaked = serviceNames.filter(serviceName => !Object.hasOwn(fakes, serviceName))
+      if (unfaked.length > 0) {
+        return Promise.reject(new Error(`cannot use unfaked services '${unfaked.join("','")}'`))
+      }
+      return Promise.resolve(serviceNames.map(serviceName => fakes[serviceName]) as P)
+    },
+    configuration<C>(_type: string): Promise<C> {
+      return Promise.resolve(settings as C)
+    },
+  }
+}
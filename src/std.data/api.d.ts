@@ -559,18 +559,53 @@ declare module 'std.data' {
       evaluate<T extends Value = Value>(expressionSource: TypeExpression | string): Type<T>
       /**
        * Export JSON structure of a value.
+       * Lists and tuples are exported as arrays. Dictionaries and records are exported as objects.
+       * An undefined value is exported as null, except for an optional record field which is omitted.
        * @param expressionSource Type expression that evaluates the type of value, or source text of this expression
        * @param value Value to export
        * @returns A JSON structure
+       * @throws When the value does not obey the evaluated type, with the failing path inside the value
        */
       export<T extends Value = Value>(expressionSource: TypeExpression | string, value: T): Structure
       /**
        * Import value from a JSON structure.
+       * A null structure and a missing record field are imported as undefined, if the type allows it.
+       * A union type imports the structure with the first alternative that accepts it.
+       * A wildcard type imports arrays and objects as lists and dictionaries of optional wildcards.
        * @param expressionSource Type expression that evaluates the type of value, or source text of this expression
        * @param structure JSON structure to import
        * @returns A value
+       * @throws When the structure does not match the evaluated type, with the failing path inside the structure
        */
       import<T extends Value = Value>(expressionSource: TypeExpression | string, structure: Structure): T
+      /**
+       * Validate a value.
+       * Members of compositions are inspected in depth, such that every offending member is reported.
+       * A union type reports violations inside the only alternative with the shape of the value, if there is one.
+       * @param expressionSource Type expression that evaluates the expected type, or source text of this expression
+       * @param value Value to validate
+       * @returns Violations of the evaluated type, which is empty when the type includes the value
+       * @throws An error if the expression cannot be evaluated
+       */
+      validate(expressionSource: TypeExpression | string, value: Value): Violation[]
+    }
+    /**
+     * A violation reports a value that does not obey the expected type.
+     */
+    interface Violation {
+      /**
+       * Path to the offending value e.g., orders[3].customer.name or an empty path for the validated value itself.
+       * List and tuple positions start at 1. Dictionary keys are quoted.
+       */
+      readonly path: string
+      /**
+       * Source text of the type expression that the offending value does not obey.
+       */
+      readonly expected: string
+      /**
+       * The offending value.
+       */
+      readonly actual: Value
     }
   }
 }
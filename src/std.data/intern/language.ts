@@ -374,7 +374,7 @@ class ApplicationExpression extends TypeExpression {
       }
     }
     const text = `${this.#name}(${actuals.map(textual).join(",")})`
-    return expressionCache[text] ??= new ApplicationExpression(text, name, actuals)
+    return expressionCache[text] ??= new ApplicationExpression(text, this.#name, actuals)
   }
 }
 class ListExpression extends TypeExpression {
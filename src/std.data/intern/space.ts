@@ -3,6 +3,8 @@ import type Data from 'std.data'
 // --- JavaScript ---
 import { news } from "../extern.js"
 import { parseTypeExpression, substituteTypeExpressions } from "./language.js"
+import { exportStructure, importStructure } from "./structure.js"
+import { validateValue } from "./validation.js"
 import {
   boolean,
   createDummy,
@@ -30,6 +32,8 @@ class Evaluation {
   readonly #rootExpression: Data.TypeExpression
   readonly #cache: Map<Data.TypeExpression, Data.Type<Data.Value>>
   readonly #pending: Map<Data.TypeExpression, Data.Type<Data.Value>>
+  // pending expressions whose dummy type has been referenced by nested expressions
+  readonly #recursive: Set<Data.TypeExpression>
   #depth: number
   constructor(
     definitions: Data.TypeDefinitions,
@@ -40,6 +44,7 @@ class Evaluation {
     this.#definitions = definitions
     this.#cache = cache
     this.#pending = new Map()
+    this.#recursive = new Set()
     this.#depth = 0
   }
   public get type(): Data.Type<Data.Value> {
@@ -67,10 +72,18 @@ class Evaluation {
     if (!this.#pending.delete(expression)) {
       throw new Error(this.failure("while swapping dummy type"))
     }
+    if (!this.#recursive.delete(expression)) {
+      // an unreferenced dummy is superfluous and the type may already be in use elsewhere
+      this.#cache.set(expression, type)
+      return type
+    }
     this.#cache.set(expression, dummyType)
     return swapDummy(dummyType, type)
   }
   public evaluateNested(expression: Data.TypeExpression): Data.Type<Data.Value> {
+    if (this.#pending.has(expression)) {
+      this.#recursive.add(expression)
+    }
     const cachedType = this.#pending.get(expression) ?? this.#cache.get(expression)
     if (cachedType) {
       return cachedType
@@ -192,11 +205,27 @@ class Space implements Data.Space {
     const type = this.#cache.get(expression) ?? new Evaluation(this.#definitions, expression, this.#cache).type
     return type as Data.Type<T>
   }
-  public export<T extends Data.Value>(_expressionSource: Data.TypeExpression | string, _value: T): Data.Structure {
-    return null as any
+  public export<T extends Data.Value>(expressionSource: Data.TypeExpression | string, value: T): Data.Structure {
+    return exportStructure(this.evaluate(expressionSource), value)
+  }
+  public import<T extends Data.Value>(expressionSource: Data.TypeExpression | string, structure: Data.Structure): T {
+    return importStructure(this.evaluate(expressionSource), structure) as T
   }
-  public import<T extends Data.Value>(_expressionSource: Data.TypeExpression | string, _structure: Data.Structure): T {
-    return null as any
+  public validate(expressionSource: Data.TypeExpression | string, value: Data.Value): Data.Violation[] {
+    let names: Map<Data.Type<Data.Value>, string> | undefined
+    return validateValue(this.evaluate(expressionSource), value, type => {
+      // name types after the shortest expression that evaluated them in this space
+      if (!names) {
+        names = new Map()
+        for (const [expression, evaluated] of this.#cache) {
+          const name = names.get(evaluated)
+          if (expression.arity === 0 && (name === void 0 || expression.text.length < name.length)) {
+            names.set(evaluated, expression.text)
+          }
+        }
+      }
+      return names.get(type)
+    })
   }
 }
 function express(expression: Data.TypeExpression | string): Data.TypeExpression {
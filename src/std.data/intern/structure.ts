@@ -0,0 +1,220 @@
+// --- TypeScript ---
+import type Data from 'std.data'
+// export and import patterns take the current path inside the value or structure as last parameter
+type Transport<I> = [input: I, path: string]
+// --- JavaScript ---
+import { dictionary as dictionaryType, list as listType, optional, wildcard } from "./type.js"
+import { dictionary, isComposition, isDictionary, isList, isRecord, isTuple, list, record, tuple } from "./value.js"
+
+export function exportStructure(type: Data.Type<Data.Value>, value: Data.Value): Data.Structure {
+  return type.match(exporter, value, "")
+}
+
+export function importStructure(type: Data.Type<Data.Value>, structure: Data.Structure): Data.Value {
+  return type.match(importer, structure, "")
+}
+
+export function fieldPath(path: string, selector: string): string {
+  return path ? `${path}.${selector}` : selector
+}
+
+export function keyPath(path: string, key: string): string {
+  return `${path}[${JSON.stringify(key)}]`
+}
+
+export function positionPath(path: string, position: number): string {
+  return `${path}[${position}]`
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// members of imported wildcard compositions are optional wildcards
+const anyType = optional(wildcard()), listOfAny = listType(anyType), dictionaryOfAny = dictionaryType(anyType)
+const exporter: Data.TypePattern<Data.Structure, Transport<Data.Value>> = {
+  boolean(type, [value, path]) { return exportLiteral(type, value, path, "a boolean") },
+  int32(type, [value, path]) { return exportLiteral(type, value, path, "an int32 number") },
+  number(type, [value, path]) { return exportLiteral(type, value, path, "a number") },
+  string(type, [value, path]) { return exportLiteral(type, value, path, "a string") },
+  literal(type, [value, path], literalValue) {
+    return exportLiteral(type, value, path, `literal ${JSON.stringify(literalValue)}`)
+  },
+  list(_type, [value, path], elementary) {
+    if (!isList(value)) {
+      return mismatch("export", "a list", describeValue(value), path)
+    }
+    return value.shadow.map((member, i) => elementary.match(exporter, member, positionPath(path, i + 1)))
+  },
+  dictionary(_type, [value, path], elementary) {
+    if (!isDictionary(value)) {
+      return mismatch("export", "a dictionary", describeValue(value), path)
+    }
+    const structure: { [key: string]: Data.Structure } = Object.create(null), { shadow } = value
+    for (const key in shadow) {
+      structure[key] = elementary.match(exporter, shadow[key], keyPath(path, key))
+    }
+    return structure
+  },
+  record(_type, [value, path], fields) {
+    if (!isRecord(value)) {
+      return mismatch("export", "a record", describeValue(value), path)
+    }
+    const structure: { [key: string]: Data.Structure } = Object.create(null), { shadow } = value
+    for (const selector in fields) {
+      const member = shadow[selector], exported = fields[selector].match(exporter, member, fieldPath(path, selector))
+      // omit undefined members of optional fields
+      if (member !== void 0) {
+        structure[selector] = exported
+      }
+    }
+    return structure
+  },
+  tuple(_type, [value, path], parts) {
+    if (!isTuple(value) || value.size !== parts.length) {
+      return mismatch("export", `a tuple with ${parts.length} parts`, describeValue(value), path)
+    }
+    return value.shadow.map((member, i) => parts[i].match(exporter, member, positionPath(path, i + 1)))
+  },
+  union(_type, [value, path], alternatives) {
+    for (const alternative of alternatives) {
+      if (alternative.includes(value)) {
+        // export with first alternative that includes the value
+        return alternative.match(exporter, value, path)
+      }
+    }
+    return mismatch("export", `one of ${alternatives.length} alternatives`, describeValue(value), path)
+  },
+  wildcard(_type, [value, path]) {
+    if (value === void 0) {
+      return mismatch("export", "a defined value", describeValue(value), path)
+    }
+    // a composition knows its own type
+    return isComposition(value) ? value.type.match(exporter, value, path) : value
+  },
+  optional(_type, [value, path], mandatory) {
+    return value === void 0 ? null : mandatory.match(exporter, value, path)
+  },
+  orelse(_type, [, path]) { throw failure("export", "unknown type", path) }
+}
+const importer: Data.TypePattern<Data.Value, Transport<Data.Structure>> = {
+  boolean(_type, [structure, path]) {
+    return typeof structure === "boolean" ? structure : mismatch("import", "a boolean", describe(structure), path)
+  },
+  int32(_type, [structure, path]) {
+    return typeof structure === "number" && ~~structure === structure ? structure :
+      mismatch("import", "an int32 number", describe(structure), path)
+  },
+  number(_type, [structure, path]) {
+    return typeof structure === "number" && Number.isFinite(structure) ? structure :
+      mismatch("import", "a number", describe(structure), path)
+  },
+  string(_type, [structure, path]) {
+    return typeof structure === "string" ? structure : mismatch("import", "a string", describe(structure), path)
+  },
+  literal(_type, [structure, path], value) {
+    return structure === value ? value :
+      mismatch("import", `literal ${JSON.stringify(value)}`, describe(structure), path)
+  },
+  list(type, [structure, path], elementary) {
+    if (!Array.isArray(structure)) {
+      return mismatch("import", "a list", describe(structure), path)
+    }
+    const members = structure.map((member, i) => elementary.match(importer, member, positionPath(path, i + 1)))
+    return list(type as Data.Type<Data.List<Data.Value>>, members)
+  },
+  dictionary(type, [structure, path], elementary) {
+    if (!isObject(structure)) {
+      return mismatch("import", "a dictionary", describe(structure), path)
+    }
+    const members: { [key: string]: Data.Value } = Object.create(null)
+    for (const key in structure) {
+      members[key] = elementary.match(importer, structure[key], keyPath(path, key))
+    }
+    return dictionary(type as Data.Type<Data.Dictionary<Data.Value>>, members)
+  },
+  record(type, [structure, path], fields) {
+    if (!isObject(structure)) {
+      return mismatch("import", "a record", describe(structure), path)
+    }
+    for (const key in structure) {
+      if (!Object.hasOwn(fields, key)) {
+        throw failure("import", `unexpected field "${key}"`, path)
+      }
+    }
+    const members: { [selector: string]: Data.Value } = Object.create(null)
+    for (const selector in fields) {
+      // a missing field is imported as null
+      const member = Object.hasOwn(structure, selector) ? structure[selector] : null
+      members[selector] = fields[selector].match(importer, member, fieldPath(path, selector))
+    }
+    return record(type as unknown as Data.Type<Data.Record<Data.FieldValues>>, members)
+  },
+  tuple(type, [structure, path], parts) {
+    if (!Array.isArray(structure) || structure.length !== parts.length) {
+      return mismatch("import", `a tuple with ${parts.length} parts`, describe(structure), path)
+    }
+    const members = structure.map((member, i) => parts[i].match(importer, member, positionPath(path, i + 1)))
+    return tuple(type, members as Data.ValueSequence)
+  },
+  union(_type, [structure, path], alternatives) {
+    let nearest: Error | undefined
+    for (const alternative of alternatives) {
+      try {
+        // import with first alternative that accepts the structure
+        return alternative.match(importer, structure, path)
+      } catch (problem) {
+        // remember the failure that got deepest into the structure and try next alternative
+        if (problem instanceof Error && (!nearest || depth(problem) > depth(nearest))) {
+          nearest = problem
+        }
+      }
+    }
+    const found = describe(structure), expectation = `one of ${alternatives.length} alternatives`
+    return mismatch("import", expectation, nearest ? `${found} (nearest: ${nearest.message})` : found, path)
+  },
+  wildcard(_type, [structure, path]) {
+    if (structure === null) {
+      return mismatch("import", "a defined value", describe(structure), path)
+    } else if (Array.isArray(structure)) {
+      // import array structure as list of optional wildcards
+      return importer.list!(listOfAny, [structure, path], anyType)
+    } else if (isObject(structure)) {
+      // import object structure as dictionary of optional wildcards
+      return importer.dictionary!(dictionaryOfAny, [structure, path], anyType)
+    } else if (typeof structure === "number" && !Number.isFinite(structure)) {
+      return mismatch("import", "a finite number", describe(structure), path)
+    } else {
+      return structure
+    }
+  },
+  optional(_type, [structure, path], mandatory) {
+    return structure === null ? void 0 : mandatory.match(importer, structure, path)
+  },
+  orelse(_type, [, path]) { throw failure("import", "unknown type", path) }
+}
+function exportLiteral(type: Data.Type<Data.Value>, value: Data.Value, path: string, expectation: string) {
+  return type.includes(value) ? value as Data.Literal : mismatch("export", expectation, describeValue(value), path)
+}
+function isObject(structure: Data.Structure): structure is { [key: string]: Data.Structure } {
+  return typeof structure === "object" && structure !== null && !Array.isArray(structure)
+}
+function describe(structure: Data.Structure): string {
+  return structure === null ? "null" : Array.isArray(structure) ? "an array" : typeof structure === "object" ?
+    "an object" : `${typeof structure} ${JSON.stringify(structure)}`
+}
+function describeValue(value: Data.Value): string {
+  return isList(value) ? "a list" : isDictionary(value) ? "a dictionary" : isRecord(value) ? "a record" :
+    isTuple(value) ? `a tuple with ${value.size} parts` : value === void 0 ? "undefined" :
+      `${typeof value} ${JSON.stringify(value)}`
+}
+// paths where export and import failures occurred
+const failurePaths = new WeakMap<Error, string>()
+function failure(operation: "export" | "import", message: string, path: string): Error {
+  const error = new Error(path ? `cannot ${operation} at ${path}: ${message}` : `cannot ${operation}: ${message}`)
+  failurePaths.set(error, path)
+  return error
+}
+function depth(error: Error): number {
+  return failurePaths.get(error)?.length ?? -1
+}
+function mismatch(operation: "export" | "import", expectation: string, found: string, path: string): never {
+  throw failure(operation, `expected ${expectation} but found ${found}`, path)
+}
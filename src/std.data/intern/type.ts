@@ -166,6 +166,8 @@ export function swapDummy(dummyType: Data.Type<Data.Value>, type: Data.Type<Data
   // swap dummmy reference with other reference
   facade.reset(dummyType, datatype)
   facade.reset(type, dummy)
+  // unique types must be found under the swapped reference
+  datatype.reregister(type, dummyType)
   return dummyType
 }
 
@@ -186,6 +188,7 @@ abstract class Datatype<T extends Data.Value> {
   public compare(other: Datatype<Data.Value>): number { return Math.sign(this.order - other.order) }
   public abstract test(v: Data.Value): v is T
   public abstract accept<O, P extends unknown[]>(type: Data.Type<Data.Value>, pattern: Data.TypePattern<O, P>, p: P): O
+  public reregister(_previous: Data.Type<Data.Value>, _next: Data.Type<Data.Value>): void { }
 }
 const dummy = new class DummyDatatype extends Datatype<undefined> {
   protected get order(): number {
@@ -291,6 +294,11 @@ class ListDatatype<T extends Data.Value> extends Datatype<Data.List<T>> {
   public accept<O, P extends unknown[]>(type: Data.Type<Data.List<T>>, pattern: Data.TypePattern<O, P>, p: P): O {
     return pattern.list ? pattern.list(type, p, this.#elementary) : pattern.orelse(type, p)
   }
+  public reregister(previous: Data.Type<Data.Value>, next: Data.Type<Data.List<Data.Value>>) {
+    if (allListTypes.get(this.#elementary) === previous) {
+      allListTypes.set(this.#elementary, next)
+    }
+  }
 }
 const allListTypes: WeakMap<Data.Type<Data.Value>, Data.Type<Data.List<Data.Value>>> = new WeakMap()
 class DictionaryDatatype<T extends Data.Value> extends Datatype<Data.Dictionary<T>> {
@@ -318,6 +326,11 @@ class DictionaryDatatype<T extends Data.Value> extends Datatype<Data.Dictionary<
   public accept<O, P extends unknown[]>(type: Data.Type<Data.Dictionary<T>>, pattern: Data.TypePattern<O, P>, p: P): O {
     return pattern.dictionary ? pattern.dictionary(type, p, this.#elementary) : pattern.orelse(type, p)
   }
+  public reregister(previous: Data.Type<Data.Value>, next: Data.Type<Data.Dictionary<Data.Value>>) {
+    if (allDictionaryTypes.get(this.#elementary) === previous) {
+      allDictionaryTypes.set(this.#elementary, next)
+    }
+  }
 }
 const allDictionaryTypes: WeakMap<Data.Type<Data.Value>, Data.Type<Data.Dictionary<Data.Value>>> = new WeakMap()
 class RecordDatatype<F extends Data.FieldValues> extends Datatype<Data.Record<F>> {
@@ -364,6 +377,12 @@ class RecordDatatype<F extends Data.FieldValues> extends Datatype<Data.Record<F>
   public accept<O, P extends unknown[]>(type: Data.Type<Data.Record<F>>, pattern: Data.TypePattern<O, P>, p: P): O {
     return pattern.record ? pattern.record(type, p, this.#fields) : pattern.orelse(type, p)
   }
+  public reregister(previous: Data.Type<Data.Value>, next: Data.Type<Data.Record<Data.FieldValues>>) {
+    const unique = this.#sortedKeys.join(" ")
+    if (reregisterWeakly(allRecordTypes.get(unique), previous, next)) {
+      recordFinalization.register(next, unique)
+    }
+  }
 }
 const allRecordTypes: Map<string, Set<WeakRef<Data.Type<Data.Record<Data.FieldValues>>>>> = new Map()
 const recordFinalization = new FinalizationRegistry<string>(tag => {
@@ -427,6 +446,11 @@ class TupleDatatype<T extends Data.ValueSequence> extends Datatype<Data.Tuple<T>
   public accept<O, P extends unknown[]>(type: Data.Type<Data.Tuple<T>>, pattern: Data.TypePattern<O, P>, p: P): O {
     return pattern.tuple ? pattern.tuple(type, p, this.#parts) : pattern.orelse(type, p)
   }
+  public reregister(previous: Data.Type<Data.Value>, next: Data.Type<Data.Tuple<Data.ValueSequence>>) {
+    if (reregisterWeakly(allTupleTypes[this.#parts.length - 2], previous, next)) {
+      tupleFinalization.register(next, this.#parts.length)
+    }
+  }
 }
 const allTupleTypes: Set<WeakRef<Data.Type<Data.Tuple<Data.ValueSequence>>>>[] = []
 const tupleFinalization = new FinalizationRegistry<number>(n => {
@@ -603,3 +627,17 @@ function equalTypes(left: Data.Type<Data.Value>[], right: Data.Type<Data.Value>[
   }
   return false
 }
+function reregisterWeakly<T extends Data.Type<Data.Value>>(
+  types: Set<WeakRef<T>> | undefined,
+  previous: Data.Type<Data.Value>,
+  next: T
+): boolean {
+  for (const weakly of types ?? []) {
+    if (weakly.deref() === previous) {
+      types!.delete(weakly)
+      types!.add(new WeakRef(next))
+      return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,136 @@
+// --- TypeScript ---
+import type Data from 'std.data'
+// validation patterns collect violations at the current path inside the value
+type Inspection = [value: Data.Value, path: string, violations: Data.Violation[], naming: Naming]
+// naming finds the source text of a type expression, if one is known
+type Naming = (type: Data.Type<Data.Value>) => string | undefined
+// --- JavaScript ---
+import { fieldPath, keyPath, positionPath } from "./structure.js"
+import { isDictionary, isList, isRecord, isTuple } from "./value.js"
+
+export function validateValue(type: Data.Type<Data.Value>, value: Data.Value, naming: Naming): Data.Violation[] {
+  const violations: Data.Violation[] = []
+  type.match(validator, value, "", violations, naming)
+  return violations
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+const validator: Data.TypePattern<void, Inspection> = {
+  list(type, [value, path, violations, naming], elementary) {
+    if (!isList(value)) {
+      violate(type, value, path, violations, naming)
+    } else {
+      let position = 0
+      for (const member of value.members) {
+        elementary.match(validator, member, positionPath(path, ++position), violations, naming)
+      }
+    }
+  },
+  dictionary(type, [value, path, violations, naming], elementary) {
+    if (!isDictionary(value)) {
+      violate(type, value, path, violations, naming)
+    } else {
+      for (const [key, member] of value.entries) {
+        elementary.match(validator, member, keyPath(path, key), violations, naming)
+      }
+    }
+  },
+  record(type, [value, path, violations, naming], fields) {
+    if (!isRecord(value)) {
+      violate(type, value, path, violations, naming)
+    } else {
+      const { shadow } = value
+      for (const selector in fields) {
+        fields[selector].match(validator, shadow[selector], fieldPath(path, selector), violations, naming)
+      }
+    }
+  },
+  tuple(type, [value, path, violations, naming], parts) {
+    if (!isTuple(value) || value.size !== parts.length) {
+      violate(type, value, path, violations, naming)
+    } else {
+      const { shadow } = value
+      for (let i = 0; i < parts.length; ++i) {
+        parts[i].match(validator, shadow[i], positionPath(path, i + 1), violations, naming)
+      }
+    }
+  },
+  union(type, [value, path, violations, naming], alternatives) {
+    if (!type.includes(value)) {
+      // descend into the only alternative with the right shape, otherwise the union itself is violated
+      const candidates = alternatives.filter(alternative => alternative.match(shaper, value))
+      if (candidates.length === 1) {
+        candidates[0].match(validator, value, path, violations, naming)
+      } else {
+        violate(type, value, path, violations, naming)
+      }
+    }
+  },
+  optional(_type, [value, path, violations, naming], mandatory) {
+    if (value !== void 0) {
+      mandatory.match(validator, value, path, violations, naming)
+    }
+  },
+  orelse(type, [value, path, violations, naming]) {
+    // booleans, numbers, strings, literals and wildcards do not have members to inspect
+    if (!type.includes(value)) {
+      violate(type, value, path, violations, naming)
+    }
+  }
+}
+function violate(
+  type: Data.Type<Data.Value>,
+  actual: Data.Value,
+  path: string,
+  violations: Data.Violation[],
+  naming: Naming
+) {
+  violations.push({ path, expected: render(type, naming, new Set()), actual })
+}
+// test whether a value has the shape of a type, without inspecting its members
+const shaper: Data.TypePattern<boolean, [Data.Value]> = {
+  list(_type, [value]) { return isList(value) },
+  dictionary(_type, [value]) { return isDictionary(value) },
+  record(_type, [value]) { return isRecord(value) },
+  tuple(_type, [value], parts) { return isTuple(value) && value.size === parts.length },
+  orelse(type, [value]) { return type.includes(value) }
+}
+// render canonical source text of a type expression, unless the naming already knows one
+const renderer: Data.TypePattern<string, [Naming, Set<Data.Type<Data.Value>>]> = {
+  boolean() { return "boolean" },
+  int32() { return "int32" },
+  number() { return "number" },
+  string() { return "string" },
+  literal(_type, _p, value) { return typeof value === "string" ? JSON.stringify(value) : String(value) },
+  list(type, [naming, rendering], elementary) {
+    return naming(type) ?? `[${render(elementary, naming, rendering)}]`
+  },
+  dictionary(type, [naming, rendering], elementary) {
+    return naming(type) ?? `<${render(elementary, naming, rendering)}>`
+  },
+  record(type, [naming, rendering], fields) {
+    return naming(type as Data.Type<Data.Value>) ?? `{${Object.keys(fields).sort()
+      .map(selector => `${selector}:${render(fields[selector], naming, rendering)}`).join(",")}}`
+  },
+  tuple(type, [naming, rendering], parts) {
+    return naming(type) ?? `(${parts.map(part => render(part, naming, rendering)).join(",")})`
+  },
+  union(type, [naming, rendering], alternatives) {
+    return naming(type) ?? alternatives.map(alternative => render(alternative, naming, rendering)).sort().join("|")
+  },
+  wildcard() { return "*" },
+  optional(type, [naming, rendering], mandatory) {
+    return naming(type) ?? `${render(mandatory, naming, rendering)}?`
+  },
+  orelse() { throw new Error("internal error in rendering of unknown type") }
+}
+function render(type: Data.Type<Data.Value>, naming: Naming, rendering: Set<Data.Type<Data.Value>>): string {
+  if (rendering.has(type)) {
+    // an anonymous recursive type cannot be rendered in full
+    return "..."
+  }
+  rendering.add(type)
+  const text = type.match(renderer, naming, rendering)
+  rendering.delete(type)
+  return text
+}
@@ -2,10 +2,11 @@
 import type Fn from 'std.fn'
 import type Future from 'std.future'
 import type Fx from 'std.fx'
+import type Kernel from 'std.kernel'
 import type Loop from 'std.loop'
 // --- JavaScript ---
 export default async ({ use }: Contract<Future>): Promise<Future> => {
-  [fn, fx, loop] = await use('std.fn', 'std.fx', 'std.loop')
+  [fn, fx, kernel, loop] = await use('std.fn', 'std.fx', 'std.kernel', 'std.loop')
   return import("./intern.js")
 }
-export let fn: Fn, fx: Fx, loop: Loop
+export let fn: Fn, fx: Fx, kernel: Kernel, loop: Loop
@@ -2,7 +2,7 @@
 import type Future from 'std.future'
 import type Fx from 'std.fx'
 // --- JavaScript ---
-import { fn, fx, loop } from "./extern.js"
+import { fn, fx, kernel, loop } from "./extern.js"
 
 export function isCue<T>(it: unknown): it is Future.Cue<T> {
   return facade.isHandling(it)
@@ -29,13 +29,13 @@ export function spark<T>(signal: Future.Signal<T>): Future.Cue<T> {
 }
 
 export function timeout(ms: number): Future.Cue<void> {
-  let timer: number
+  let cancel: () => void
   const begin = ms <= 0 ? awakeImmediately : function begin(reveal: Future.Reveal<void>) {
-    timer = setTimeout(reveal, ms, {})
+    cancel = kernel.queueTimeout(ms, () => reveal({}))
   }
   const end = ms <= 0 ? void 0 : function end(revealing: boolean) {
     if (!revealing) {
-      clearTimeout(timer)
+      cancel()
     }
   }
   return once(begin, end)
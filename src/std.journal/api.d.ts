@@ -0,0 +1,177 @@
+declare module 'std.journal' {
+  import type Data from 'std.data'
+  import type Fx from 'std.fx'
+  import type Theater from 'std.theater'
+  export default Journal
+  /**
+   * The journal service supports event-sourced persistent actors.
+   * The state of a persistent actor changes with events, which are appended to a journal store.
+   * When the actor is cast or recast, its role replays the events to rebuild the state.
+   */
+  interface Journal {
+    /**
+     * Mixin function creates classes whose instances are persistent actor roles.
+     * @returns Mixin function for persistent role classes of a particular actor
+     */
+    PersistentRole<A extends Theater.Actor, E extends Data.Value, T extends Data.Value = Data.Value, S extends {} = {}>(
+    ): Fx.Mixin<Journal.PersistentRole<A, E, T>, S>
+    /**
+     * Create a new journal store that keeps entries and snapshots in memory.
+     * The memory store outlives persistent roles, but it does not outlive the system.
+     * @returns A new memory store
+     */
+    memory(): Journal.Store
+    /**
+     * Create a journal store that keeps entries and snapshots in files of a directory.
+     * The directory is created when the store writes the first entry or snapshot.
+     * @param path Path of directory
+     * @returns A new file store
+     * @throws When the platform does not support a file system
+     */
+    directory(path: string): Journal.Store
+  }
+  namespace Journal {
+    /**
+     * An entry stores a serialized event in a journal.
+     */
+    interface Entry {
+      /**
+       * Sequence number of the event, starting at 1 for the first event of a persistent actor.
+       */
+      readonly sequence: number
+      /**
+       * JSON structure of the event.
+       */
+      readonly event: Data.Structure
+    }
+    /**
+     * A snapshot stores the serialized state of a persistent actor.
+     */
+    interface Snapshot {
+      /**
+       * Sequence number of the last event that is included in the state.
+       */
+      readonly sequence: number
+      /**
+       * JSON structure of the state.
+       */
+      readonly state: Data.Structure
+    }
+    /**
+     * A journal store keeps the entries and snapshots of persistent actors.
+     */
+    interface Store {
+      /**
+       * Append entries to the journal of a persistent actor.
+       * @param id Persistence id of actor
+       * @param entries Entries with consecutive sequence numbers
+       * @returns A promise that resolves when the entries have been stored
+       * @throws When the first entry does not follow the last stored entry of the actor
+       */
+      append(id: string, entries: Entry[]): Promise<void>
+      /**
+       * Read the journal of a persistent actor.
+       * @param id Persistence id of actor
+       * @param after Sequence number of last entry to skip
+       * @returns A promise of the entries that follow the skipped entries, in sequence order
+       */
+      replay(id: string, after: number): Promise<Entry[]>
+      /**
+       * Save the latest snapshot of a persistent actor.
+       * @param id Persistence id of actor
+       * @param snapshot Snapshot to save
+       * @returns A promise that resolves when the snapshot has been stored
+       */
+      save(id: string, snapshot: Snapshot): Promise<void>
+      /**
+       * Load the latest snapshot of a persistent actor.
+       * @param id Persistence id of actor
+       * @returns A promise of the latest snapshot, or undefined if the actor has not saved a snapshot
+       */
+      load(id: string): Promise<Snapshot | undefined>
+    }
+    /**
+     * Persistence settings of a persistent role.
+     */
+    interface Persistence {
+      /**
+       * Persistence id identifies the persistent actor in the journal store.
+       */
+      readonly id: string
+      /**
+       * Journal store with entries and snapshots.
+       */
+      readonly store: Store
+      /**
+       * Data space to export and import events and states.
+       */
+      readonly space: Data.Space
+      /**
+       * Type expression source of events.
+       */
+      readonly event: string
+      /**
+       * Type expression source of states. Default is the wildcard type.
+       */
+      readonly state?: string
+      /**
+       * Save a snapshot after this number of events. Default does not save snapshots.
+       */
+      readonly snapshots?: number
+    }
+    /**
+     * A persistent role rebuilds its state from snapshots and events in a journal store.
+     */
+    abstract class PersistentRole<A extends Theater.Actor, E extends Data.Value, T extends Data.Value = Data.Value>
+      extends Theater.Role<A> {
+      /**
+       * Define the persistence settings of this role. The definition is obtained once, when the role is initialized.
+       * Default throws an error, so subclasses must define their own persistence.
+       * This method should not be called directly by user code.
+       * @returns The persistence settings
+       */
+      protected definePersistence(): Persistence
+      /**
+       * Sequence number of the last event that changed the state of this role.
+       */
+      protected readonly sequence: number
+      /**
+       * Recover the state from the latest snapshot and the subsequent events in the journal store.
+       * Subclasses that define their own initialization code must perform this scene first.
+       * @param p Construction parameters
+       * @returns Initialization scene
+       * @throws When the snapshot or an event does not match its type
+       */
+      protected initializeRole(...p: unknown[]): Theater.Scene<void>
+      /**
+       * Change the state of this role with an event.
+       * The event has already been stored when it is applied. Default throws an error.
+       * This method should not be called directly by user code.
+       * @param event Event to apply
+       */
+      protected applyEvent(event: E): void
+      /**
+       * Capture the state of this role in a snapshot. Default throws an error.
+       * This method should not be called directly by user code.
+       * @returns The current state
+       */
+      protected captureState(): T
+      /**
+       * Restore the state of this role from a snapshot. Default throws an error.
+       * This method should not be called directly by user code.
+       * @param state The state to restore
+       */
+      protected restoreState(state: T): void
+      /**
+       * Store events in the journal and apply them when they have been stored.
+       * Events of concurrent jobs are stored and applied in the order in which the jobs persist them.
+       * A snapshot is saved when the number of events reaches the snapshot interval.
+       * @param events Events to persist
+       * @returns Persistence scene
+       * @throws When an event does not match the event type
+       * @throws When the journal store fails to append the events
+       */
+      protected persist(...events: E[]): Theater.Scene<void>
+    }
+  }
+}
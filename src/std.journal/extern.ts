@@ -0,0 +1,10 @@
+// --- TypeScript ---
+import type Fx from 'std.fx'
+import type Journal from 'std.journal'
+import type Theater from 'std.theater'
+// --- JavaScript ---
+export default async ({ use }: Contract<Journal>): Promise<Journal> => {
+  [fx, theater] = await use('std.fx', 'std.theater')
+  return import("./intern.js")
+}
+export let fx: Fx, theater: Theater
@@ -0,0 +1,4 @@
+// --- JavaScript ---
+export { PersistentRole } from "./intern/persistent.js"
+export { memory } from "./intern/store.js"
+export { directory } from "./intern/store.js"
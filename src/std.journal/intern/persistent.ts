@@ -0,0 +1,111 @@
+// --- TypeScript ---
+import type Data from 'std.data'
+import type Fx from 'std.fx'
+import type Journal from 'std.journal'
+import type Theater from 'std.theater'
+type AnyPersistentRole = Journal.PersistentRole<Theater.Actor, Data.Value, Data.Value>
+// a batch holds the entries of events that a job persists, until the events are applied
+interface Batch {
+  readonly entries: Journal.Entry[]
+  readonly events: Data.Value[]
+  // true when the store has appended the entries
+  appended: boolean
+}
+// --- JavaScript ---
+import { fx, theater } from "../extern.js"
+
+export function PersistentRole<
+  A extends Theater.Actor, E extends Data.Value, T extends Data.Value = Data.Value, S extends {} = {}
+>(): Fx.Mixin<Journal.PersistentRole<A, E, T>, S> {
+  return AnyPersistentRoleMixin as Fx.Mixin<Journal.PersistentRole<A, E, T>, S>
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+const AnyPersistentRoleMixin = fx.mixin<AnyPersistentRole>(Super => {
+  class PersistentRole extends theater.Role<Theater.Actor>()(Super) {
+    // persistence settings are defined when role is initialized
+    #persistence?: Journal.Persistence
+    // sequence number of last applied event
+    #sequence: number
+    // sequence number of last reserved event, which may not have been applied yet
+    #reserved: number
+    // last append of this role, such that the store receives entries in sequence order
+    #appending: Promise<void>
+    // batches that have not been applied yet, in sequence order
+    readonly #batches: Batch[]
+    get #settings() {
+      if (!this.#persistence) {
+        throw new Error("persistent role must be initialized")
+      }
+      return this.#persistence
+    }
+    constructor(...p: unknown[]) {
+      super(...p)
+      this.#persistence = void 0
+      this.#sequence = this.#reserved = 0
+      this.#appending = Promise.resolve()
+      this.#batches = []
+    }
+    protected definePersistence(): Journal.Persistence {
+      throw new Error("persistent role must define its persistence")
+    }
+    protected get sequence(): number {
+      return this.#sequence
+    }
+    protected *initializeRole(..._p: unknown[]): Theater.Scene<void> {
+      const persistence = this.#persistence = this.definePersistence()
+      const { id, store, space, event, state = "*" } = persistence
+      const snapshot = yield* theater.when(store.load(id))
+      if (snapshot) {
+        this.restoreState(space.import(state, snapshot.state))
+        this.#sequence = this.#reserved = snapshot.sequence
+      }
+      for (const entry of yield* theater.when(store.replay(id, this.#sequence))) {
+        this.applyEvent(space.import(event, entry.event))
+        this.#sequence = this.#reserved = entry.sequence
+      }
+    }
+    protected applyEvent(_event: Data.Value): void {
+      throw new Error("persistent role must apply its events")
+    }
+    protected captureState(): Data.Value {
+      throw new Error("persistent role must capture its state")
+    }
+    protected restoreState(_state: Data.Value): void {
+      throw new Error("persistent role must restore its state")
+    }
+    protected *persist(...events: Data.Value[]): Theater.Scene<void> {
+      const { id, store, space, event, state = "*", snapshots = 0 } = this.#settings
+      const structures = events.map(it => space.export(event, it))
+      // reserve sequence numbers before the scene yields, such that concurrent jobs append consecutive entries
+      const entries = structures.map(structure => ({ sequence: ++this.#reserved, event: structure }))
+      const batch: Batch = { entries, events, appended: false }, batches = this.#batches
+      batches.push(batch)
+      // append after previous append has settled, even when the job of the previous append has been stopped
+      const appended = this.#appending.then(() => store.append(id, entries))
+      this.#appending = appended.then(() => { batch.appended = true }, () => {
+        batches.splice(batches.indexOf(batch), 1)
+        // release the reservations of these entries and the entries after them, because they cannot follow anymore
+        if (entries.length > 0) {
+          this.#reserved = Math.min(this.#reserved, entries[0].sequence - 1)
+        }
+      })
+      yield* theater.when(appended)
+      const previous = this.#sequence
+      // apply events in sequence order, including events of concurrent jobs that were appended before these events
+      for (let first = batches[0]; first?.appended; first = batches[0]) {
+        batches.shift()
+        for (const [index, it] of first.events.entries()) {
+          this.applyEvent(it)
+          this.#sequence = first.entries[index].sequence
+        }
+      }
+      // save snapshot when the number of events reaches the snapshot interval
+      if (snapshots > 0 && Math.floor(previous / snapshots) < Math.floor(this.#sequence / snapshots)) {
+        const snapshot = { sequence: this.#sequence, state: space.export(state, this.captureState()) }
+        yield* theater.when(store.save(id, snapshot))
+      }
+    }
+  }
+  return PersistentRole as unknown as typeof Super & Fx.Constructor<AnyPersistentRole>
+})
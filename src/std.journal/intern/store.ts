@@ -0,0 +1,52 @@
+// --- TypeScript ---
+import type Journal from 'std.journal'
+// --- JavaScript ---
+
+export function memory(): Journal.Store {
+  return new MemoryStore()
+}
+
+export function directory(_path: string): Journal.Store {
+  throw new Error("file journals are not supported on this platform")
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// journal and latest snapshot of a persistent actor
+interface Record {
+  readonly entries: Journal.Entry[]
+  snapshot?: Journal.Snapshot
+}
+class MemoryStore implements Journal.Store {
+  // records by persistence id
+  readonly #records: Map<string, Record>
+  #lookup(id: string): Record {
+    let record = this.#records.get(id)
+    if (!record) {
+      this.#records.set(id, record = { entries: [] })
+    }
+    return record
+  }
+  constructor() {
+    this.#records = new Map()
+  }
+  public async append(id: string, entries: Journal.Entry[]): Promise<void> {
+    const stored = this.#lookup(id).entries
+    let last = stored.at(-1)?.sequence ?? 0
+    for (const { sequence } of entries) {
+      if (sequence !== ++last) {
+        throw new Error(`journal entry ${sequence} of "${id}" does not follow entry ${last - 1}`)
+      }
+    }
+    // entries are immutable JSON structures
+    stored.push(...entries.map(({ sequence, event }) => Object.freeze({ sequence, event: structuredClone(event) })))
+  }
+  public async replay(id: string, after: number): Promise<Journal.Entry[]> {
+    return this.#lookup(id).entries.filter(({ sequence }) => sequence > after)
+  }
+  public async save(id: string, { sequence, state }: Journal.Snapshot): Promise<void> {
+    this.#lookup(id).snapshot = Object.freeze({ sequence, state: structuredClone(state) })
+  }
+  public async load(id: string): Promise<Journal.Snapshot | undefined> {
+    return this.#records.get(id)?.snapshot
+  }
+}
@@ -9,11 +9,28 @@ declare module 'std.kernel' {
      * @returns True for a parentless JavaScript worker, otherwise false
      */
     isUnparented(): boolean
+    /**
+     * Obtain the current time of the kernel clock.
+     * @returns A high resolution timestamp in milliseconds
+     */
+    now(): number
+    /**
+     * Schedule a microtask in the current cycle of the event loop.
+     * @param microtask Code to execute in microtask
+     */
+    queueMicrotask(microtask: () => void): void
     /**
      * Schedule a macrotask in a future cycle of the event loop. 
      * @param macrotask Code to execute in macrotask
      */
     queueMacrotask(macrotask: () => void): void
+    /**
+     * Schedule a macrotask when a timeout period has expired.
+     * @param ms Timeout period in milliseconds
+     * @param macrotask Code to execute in macrotask
+     * @returns A function that cancels the scheduled macrotask, if it has not been executed yet
+     */
+    queueTimeout(ms: number, macrotask: () => void): () => void
     /**
      * Start a new isolated child worker.
      * @param path Path to main module
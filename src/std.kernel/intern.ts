@@ -12,6 +12,14 @@ export function isUnparented() {
   return typeof DedicatedWorkerGlobalScope !== "function"
 }
 
+export function now(): number {
+  return performance.now()
+}
+
+export function queueMicrotask(microtask: () => void): void {
+  globalThis.queueMicrotask(microtask)
+}
+
 export function queueMacrotask(macrotask: () => void): void {
   // schedule macrotask handler
   const id = uniqueMacrotask++
@@ -19,6 +27,11 @@ export function queueMacrotask(macrotask: () => void): void {
   port2.postMessage(id)
 }
 
+export function queueTimeout(ms: number, macrotask: () => void): () => void {
+  const timer = setTimeout(macrotask, ms)
+  return () => clearTimeout(timer)
+}
+
 export async function startWorker<Init>(
   path: URL,
   initial: Init,
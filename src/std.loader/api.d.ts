@@ -3,6 +3,14 @@ interface ServiceAspects {
    * If true, an extern module provides the bundled service implementation.
    */
   readonly implementation?: boolean
+  /**
+   * If true, the service implementation can be reloaded during development.
+   */
+  readonly reloadable?: boolean
+  /**
+   * If true, a config module provides bundled configuration settings of a service.
+   */
+  readonly configuration?: boolean
 }
 declare module 'std.loader' {
   export default Loader
@@ -12,8 +20,10 @@ declare module 'std.loader' {
   interface Loader {
     /**
     * Promise to provide an implementation of a service.
+    * A failed instantiation of the service provider is retried when the service is provided again.
     * @param name Service name
     * @returns A promise that resolves with the service provider
+    * @throws When the instantiation fails or misses its deadline, with the use chain that led to the failure
     */
     provide<S>(name: string): Promise<S>
     /**
@@ -22,6 +32,42 @@ declare module 'std.loader' {
      * @returns An iterable iterator over bound services
      */
     query(options?: Loader.QueryOptions): IterableIterator<Loader.QueryResult>
+    /**
+     * Query extern modules of bound service implementations.
+     * @returns An iterable iterator over extern modules, ordered by service name and bindings id
+     */
+    queryExterns(): IterableIterator<Loader.ExternResult>
+    /**
+     * Promise to reload the implementation of a service.
+     * The extern modules of the service implementation are imported again and its contractors build a new provider.
+     * Services that directly or indirectly depend on the reloaded service are provided again, such that their
+     * contractors use the new provider. Modules that extern modules import are subject to the module cache.
+     * @param name Service name
+     * @returns A promise that resolves with the new service provider
+     * @throws When the service is not bound with the reloadable aspect, or when it lacks an implementation
+     */
+    reload<S>(name: string): Promise<S>
+    /**
+     * Diagnose service providers of this loader.
+     * The diagnosis is a snapshot of the provider states and the dependencies between services.
+     * @returns A diagnosis of all known service providers
+     */
+    diagnose(): Loader.Diagnosis
+    /**
+     * Push a bindings layer on top of the bundle stack.
+     * Lazy providers of the bound implementations refine the providers in lower layers.
+     * @param bindings Bindings of bundle
+     * @throws When the bindings are invalid, when their versions conflict with versions in lower layers,
+     * or when they refine providers that are already instantiated
+     */
+    push(bindings: Loader.Bindings): void
+    /**
+     * Pop the top bindings layer from the bundle stack.
+     * Services that the layer implemented fall back to lazy providers in lower layers, if any.
+     * @param id Id of bindings on top of the stack
+     * @throws When the bindings are not on top of the stack, or when providers of the layer are in use
+     */
+    pop(id: string): void
   }
   namespace Loader {
     /**
@@ -36,6 +82,44 @@ declare module 'std.loader' {
        * Bound service aspects.
        */
       readonly service: ServiceMap
+      /**
+       * Optional deadlines in milliseconds for the instantiation of service providers.
+       * Deadlines in upper bindings override deadlines of the same services in lower bindings.
+       */
+      readonly deadlines?: { readonly [name: string]: number }
+      /**
+       * Optional semantic versions of bound services.
+       */
+      readonly versions?: { readonly [name: string]: Versions }
+      /**
+       * Optional preloading policy of all bound implementations, or policies of individual implementations.
+       * The default policy is eager.
+       */
+      readonly preloading?: Preloading | { readonly [name: string]: Preloading }
+    }
+    /**
+     * A preloading policy determines when the extern module of a service implementation is fetched.
+     * An eager policy fetches immediately, a lazy policy when the service is first provided and an idle policy
+     * when the environment is idle.
+     */
+    type Preloading = "eager" | "lazy" | "idle"
+    /**
+     * Semantic versions of a bound service.
+     * An implementation is compatible with a specification if it satisfies the caret range of the specification.
+     */
+    interface Versions {
+      /**
+       * Semantic version of the service specification, if these bindings specify the service e.g., 1.2.0.
+       */
+      readonly specification?: string
+      /**
+       * Semantic version of the service implementation, if these bindings implement the service e.g., 1.2.3.
+       */
+      readonly implementation?: string
+      /**
+       * Version ranges of service specifications that the service implementation uses e.g., ^1.2.0 or >=1.0.0 <3.0.0.
+       */
+      readonly requires?: { readonly [name: string]: string }
     }
     /**
      * An extern module exports a default function, the contractor, which promises to fulfill the given contract.
@@ -68,6 +152,79 @@ declare module 'std.loader' {
        */
       hasBindingFor(serviceName: string): boolean
     }
+    /**
+     * An extern result reports how the extern module of a service implementation is fetched.
+     */
+    interface ExternResult {
+      /**
+       * Name of implemented service.
+       */
+      readonly serviceName: string
+      /**
+       * Id of bundle bindings that bind the implementation.
+       */
+      readonly bundle: string
+      /**
+       * Location of extern module.
+       */
+      readonly location: string
+      /**
+       * Preloading policy of extern module.
+       */
+      readonly preloading: Preloading
+      /**
+       * True if the extern module has been fetched, otherwise false.
+       */
+      readonly isFetched: boolean
+    }
+    /**
+     * State of a service provider in a loader.
+     */
+    type ProviderState = "uninstantiated" | "instantiating" | "instantiated" | "failed"
+    /**
+     * A diagnosis captures states of service providers and the dependency graph of services.
+     */
+    interface Diagnosis {
+      /**
+       * Number of diagnosed services.
+       */
+      readonly size: number
+      /**
+       * Iterable iterator over diagnosed services, ordered by name.
+       */
+      readonly services: IterableIterator<ServiceDiagnosis>
+      /**
+       * Render the dependency graph of this diagnosis.
+       * The DOT format draws an edge per direct dependency and styles nodes by provider state.
+       * The JSON format maps service names to provider states with direct and indirect dependencies.
+       * @param format Output format
+       * @returns Source text of the dependency graph
+       * @throws When the format is unknown
+       */
+      render(format: "dot" | "json"): string
+    }
+    /**
+     * A service diagnosis captures the provider state and dependencies of a service.
+     */
+    interface ServiceDiagnosis {
+      /**
+       * Service name.
+       */
+      readonly name: string
+      /**
+       * State of the service provider.
+       */
+      readonly state: ProviderState
+      /**
+       * Iterable iterator over names of services that the service provider uses.
+       * An uninstantiated service provider does not have dependencies yet.
+       */
+      readonly direct: IterableIterator<string>
+      /**
+       * Iterable iterator over names of services that the service provider depends on through other services.
+       */
+      readonly indirect: IterableIterator<string>
+    }
     /**
      * Options to filter and order qeury results.
      */
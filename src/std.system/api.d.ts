@@ -27,9 +27,21 @@ declare module 'std.system' {
      * Obtain role class for nearby actors.
      * A nearby actor lives in this system, but it references an actor in some other system.
      * Upon creation, the nearby role expects the id of the other system and the path to the component.
+     * After it has forwarded its first job, the nearby actor watches the component. The nearby actor kills itself when
+     * the component dies or cannot be found, such that its watchers (e.g. event buses) learn that it is gone.
+     * A nearby actor that has not forwarded a job does not watch the component, and it does not die with it.
      * @returns A role class for a nearby actor
      */
     Nearby<A extends Theater.Actor>(): Theater.RoleClass<A, [id: number, path: string]>
+    /**
+     * Watch a component in some system until it dies.
+     * The termination record travels over the network when the component lives in another system.
+     * @param id Id of system where the component lives
+     * @param path Path to component in root context of the system
+     * @returns An inert job that produces the termination record
+     * @throws When the path does not resolve a component
+     */
+    watch(id: number, path: string): Theater.Job<System.Termination>
     /**
      * Obtain the ancestry chain.
      * The chain identifies this system, the parent system, the grandparent system, ..., up to the top system.
@@ -54,6 +66,37 @@ declare module 'std.system' {
     loader(): Loader
   }
   namespace System {
+    /**
+     * A termination record that can travel between systems.
+     */
+    interface Termination {
+      /**
+       * Cause of death.
+       */
+      readonly cause: Theater.Cause
+      /**
+       * Last incident of the component, if any.
+       */
+      readonly incident?: IncidentRecord
+    }
+    /**
+     * An incident record summarizes an incident, such that it can travel between systems.
+     * It does not reference the offender, the parameters or the blooper of the incident.
+     */
+    interface IncidentRecord {
+      /**
+       * Selector of failed job, converted to a string.
+       */
+      readonly selector: string
+      /**
+       * Number of parameters of failed job.
+       */
+      readonly arity: number
+      /**
+       * Message of blooper that caused the incident.
+       */
+      readonly message: string
+    }
     /**
      * A context offers synchronous, readonly access to the components of a container.
      */
@@ -2,6 +2,7 @@
 export { ContainerRole } from "./intern/container.js"
 export { Subsidiary } from "./intern/subsidiary.js"
 export { Nearby } from "./intern/network.js"
+export { watch } from "./intern/network.js"
 export { ancestry } from "./intern/network.js"
 export { id } from "./intern/network.js"
 export { root } from "./intern/network.js"
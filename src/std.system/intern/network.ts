@@ -24,7 +24,14 @@ interface Request {
   // method parameters
   readonly parameters: unknown[]
 }
-// response message is result of a request
+// vigil message watches a component until it dies
+interface Vigil {
+  // unique sequence number of vigil/response pair (per portal)
+  readonly sequence: number
+  // path to component actor that is watched
+  readonly vigil: string
+}
+// response message is result of a request or vigil
 interface Response {
   // same sequence number as corresponding request (over same portal)
   readonly sequence: number
@@ -42,7 +49,7 @@ interface Reservation {
   readonly allocated: number
 }
 // all network messages
-type Message = Association | Connection | Request | Response | Cancellation | Allocation | Reservation
+type Message = Association | Connection | Request | Vigil | Response | Cancellation | Allocation | Reservation
 // --- JavaScript ---
 import { parentPort, ancestry as inheritedAncestry } from "../main.js"
 import { future, kernel, loader as theLoader, news, theater } from "../extern.js"
@@ -65,6 +72,10 @@ export function loader(): Loader {
   return theLoader
 }
 
+export function watch(systemId: number, path: string): Theater.Job<System.Termination> {
+  return theater.play(vigil, systemId, path)
+}
+
 export function Nearby<A extends Theater.Actor>(): Theater.RoleClass<A, [number, string]> {
   return NearbyRole as unknown as Theater.RoleClass<A, [number, string]>
 }
@@ -156,10 +167,31 @@ const associating: { [id: number]: [Promise<Portal>, (portal: Portal) => void] |
 const portals: { [id: number]: Portal } = Object.create(null)
 class Portal {
   readonly #port: Kernel.MessagePort
-  // pending revelations for sent requests
+  // pending revelations for sent requests and vigils
   readonly #pending: { [sequence: number]: Future.Reveal<unknown> | undefined }
-  // sequence for next request to send
+  // sequence for next request or vigil to send
   #nextSequence: number
+  // send message to other side and wait for the response
+  #exchange(compose: (sequence: number) => Request | Vigil): Future.Cue<unknown> {
+    let pendingSequence: number
+    const begin: Future.Begin<unknown> = reveal => {
+      // allocate sequence number for next message
+      const sequence = this.#nextSequence++
+      // install pending revelation for next message
+      this.#pending[pendingSequence = sequence] = reveal
+      // send next message to other side
+      this.#port.postMessage(compose(sequence))
+    }
+    const end: Future.End<unknown> = revealing => {
+      if (!revealing) {
+        // send cancellation message to other side
+        const cancellation: Cancellation = { unsequence: pendingSequence }
+        this.#port.postMessage(cancellation)
+      }
+      delete this.#pending[pendingSequence]
+    }
+    return future.once(begin, end)
+  }
   constructor(port: Kernel.MessagePort, otherId: number) {
     this.#port = port
     const pending: { [sequence: number]: Future.Reveal<unknown> | undefined } = this.#pending = Object.create(null)
@@ -199,6 +231,31 @@ class Portal {
             port.postMessage(response)
           })
         }
+      } else if ("vigil" in message) {
+        // process received vigil message
+        const { vigil: path, sequence } = message, component = root().resolve(path)
+        if (!component) {
+          // send immediate response that component was not found
+          const response: Response = { sequence, signal: { blooper: new Error(`invalid component path "${path}"`) } }
+          port.postMessage(response)
+        } else {
+          running[sequence] = theater.run(function* () {
+            // wait for component to die
+            const { prompt } = yield theater.watch(component)
+            // clean up after death
+            delete running[sequence]
+            // send termination record back
+            const response: Response = { sequence, signal: { prompt: obituary(prompt) } }
+            try {
+              port.postMessage(response)
+            } catch (problem) {
+              // settle the vigil on the other side when the termination record cannot travel
+              const failure = new Error(`cannot send termination record of component "${path}": ${problem}`)
+              const response: Response = { sequence, signal: { blooper: failure } }
+              port.postMessage(response)
+            }
+          })
+        }
       } else if ("signal" in message) {
         // process received response message
         const { sequence, signal } = message, reveal = pending[sequence]
@@ -244,25 +301,10 @@ class Portal {
   }
   public get port() { return this.#port }
   public send(path: string, selector: string, parameters: unknown[]): Future.Cue<unknown> {
-    let pendingSequence: number
-    const begin: Future.Begin<unknown> = reveal => {
-      // allocate sequence number for next request
-      const sequence = this.#nextSequence++
-      // install pending revelation for next request
-      this.#pending[pendingSequence = sequence] = reveal
-      // send next request to other side
-      const request: Request = { sequence, path, selector, parameters }
-      this.#port.postMessage(request)
-    }
-    const end: Future.End<unknown> = revealing => {
-      if (!revealing) {
-        // send cancellation message to other side
-        const cancellation: Cancellation = { unsequence: pendingSequence }
-        this.#port.postMessage(cancellation)
-      }
-      delete this.#pending[pendingSequence]
-    }
-    return future.once(begin, end)
+    return this.#exchange((sequence): Request => ({ sequence, path, selector, parameters }))
+  }
+  public watch(path: string): Future.Cue<System.Termination> {
+    return this.#exchange((sequence): Vigil => ({ sequence, vigil: path })) as Future.Cue<System.Termination>
   }
 }
 function startPortal(target: number): Promise<Portal> {
@@ -280,20 +322,54 @@ function startPortal(target: number): Promise<Portal> {
     return promise
   }
 }
+// watch component in some system until it dies
+function* vigil(systemId: number, path: string): Theater.Scene<System.Termination> {
+  if (systemId === id()) {
+    const component = root().resolve(path)
+    if (!component) {
+      throw new Error(`invalid component path "${path}"`)
+    }
+    return obituary(yield* theater.when(theater.watch(component)))
+  }
+  const portal = portals[systemId] ?? (yield* theater.when(startPortal(systemId)))
+  return yield* theater.when(portal.watch(path))
+}
+// summarize the last incident in a termination record, such that it can travel over the network
+function obituary({ cause, incident }: Theater.Termination): System.Termination {
+  if (!incident) {
+    return { cause }
+  }
+  const { selector, parameters, blooper } = incident
+  return { cause, incident: { selector: String(selector), arity: parameters.length, message: blooper.message } }
+}
 class NearbyRole extends theater.Role<Theater.Actor>()(Object) implements Theater.Script<Theater.Actor> {
   readonly #id: number
   readonly #path: string
+  // true when this nearby actor watches the component in the other system
+  #watching: boolean
   protected *improviseScene<T, P extends unknown[]>(selector: string | symbol, p: P): Theater.Scene<T> {
     if (typeof selector === "symbol") {
       throw new Error(`unsupported symbolic selector for nearby actor "${String(selector)}"`)
     }
     const portal = portals[this.#id] ?? (yield* theater.when(startPortal(this.#id)))
+    if (!this.#watching) {
+      this.#watching = true
+      const watch = this.playScene(function* (this: NearbyRole) {
+        // wait until the component dies or turns out to be missing
+        yield portal.watch(this.#path)
+        // this nearby actor dies with the component, such that its watchers learn that the component is gone
+        return yield* this.kill()
+      })
+      // the watch outlives the job that forwarded the first message
+      watch.detach().run()
+    }
     return yield* theater.when<T>(portal.send(this.#path, selector, p))
   }
   constructor(id: number, path: string) {
     super()
     this.#id = id
     this.#path = path
+    this.#watching = false
   }
 }
 const rootContext = await theater.cast<System.Root, []>({
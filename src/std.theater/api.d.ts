@@ -31,6 +31,25 @@ declare module 'std.theater' {
      * @returns Mixin function for role classes of a particular actor
      */
     Role<A extends Theater.Actor, S extends {} = {}>(): Fx.Mixin<Theater.Role<A>, S>
+    /**
+     * Mixin function creates role classes of finite state machines.
+     * Each state of the machine declares the scene selectors that it accepts.
+     * @returns Mixin function for machine role classes of a particular automaton
+     */
+    MachineRole<A extends Theater.Automaton, S extends {} = {}>(): Fx.Mixin<Theater.MachineRole<A>, S>
+    /**
+     * Obtain role class for routers.
+     * A router casts a pool of identical routees, and it forwards jobs with other selectors than its own to a routee.
+     * Upon creation, the router expects the routing settings.
+     * @returns A role class for a router
+     */
+    Router<A extends Theater.Actor>(): Theater.RoleClass<Theater.Router<A>, [routing: Theater.Routing<A>]>
+    /**
+     * Obtain role class for event buses.
+     * An event bus publishes events to the actors that subscribe to a topic.
+     * @returns A role class for an event bus
+     */
+    EventBus(): Theater.RoleClass<Theater.EventBus, []>
     /**
      * Test whether the theater is showing an actor that is playing on stage.
      * @returns True if the theater is currently showing an actor on stage, otherwise false
@@ -42,6 +61,12 @@ declare module 'std.theater' {
      * @returns True if it is an escalation exception, otherwise false
      */
     isEscalation<A extends Theater.Actor>(it: unknown): it is Theater.Escalation<A>
+    /**
+     * Test whether it is a timeout blooper of a job that missed its deadline.
+     * @param it Thing to test
+     * @returns True if it is a timeout blooper, otherwise false
+     */
+    isTimeout(it: unknown): it is Theater.Timeout
     /**
      * Test whether it is an actor job.
      * @param it Thing to test
@@ -102,6 +127,7 @@ declare module 'std.theater' {
      * Cast a new toplevel actor.
      * @param casting Casting of new actor
      * @returns A new actor
+     * @throws When the casting defines a deadline that is not a positive number
      */
     cast<A extends Theater.Actor, P extends unknown[]>(casting: Theater.Casting<Theater.Actor, A, P>): A
     /**
@@ -110,6 +136,61 @@ declare module 'std.theater' {
      * @returns A cue
      */
     mourn(actor: Theater.Actor): Future.Cue<void>
+    /**
+     * Watch actor and signal a termination record when it dies.
+     * @param actor Actor to watch
+     * @returns A cue
+     */
+    watch(actor: Theater.Actor): Future.Cue<Theater.Termination>
+    /**
+     * Deliver an inert job to the mailbox of its actor.
+     * The job runs and the cue signals when the mailbox admits the job.
+     * If the mailbox overflows with a wait policy, the cue signals when the mailbox has room again.
+     * The cue signals a blooper when the job fails before admission e.g., when the mailbox rejects it.
+     * If the cue is cancelled before admission, the job quits.
+     * @param job Inert job to deliver
+     * @returns A cue
+     * @throws When the job is not inert
+     */
+    deliver(job: Theater.Job<unknown>): Future.Cue<void>
+    /**
+     * Obtain the queue length of an actor.
+     * The queue length is the number of messages in the mailbox that the actor has not started to perform.
+     * @param actor Actor to inspect
+     * @returns Number of queued messages
+     */
+    queueLength(actor: Theater.Actor): number
+    /**
+     * Take a snapshot of all living actors.
+     * The root of the snapshot tree is the immortal theater director, which supervises the immortal janitor and
+     * troupe actors. The troupe supervises the toplevel actors.
+     * @returns A snapshot of the theater director and its descendants
+     */
+    snapshot(): Theater.Snapshot
+    /**
+     * Obtain scheduling metrics of the theater stage.
+     * The statistics of interrupt occurences roll over a window of recent interrupts.
+     * The statistics of scene selectors accumulate all stage performances.
+     * @returns Scheduling metrics
+     */
+    metrics(): Theater.Metrics
+    /**
+     * Start to trace jobs in a ring buffer. Tracing discards the events of a previous trace.
+     * A job is traced when it is created while tracing, with a new trace id or with the trace id of the job that is
+     * showing on stage. The start, yield, resume and completion of traced jobs are recorded.
+     * @param capacity Maximum number of events in the ring buffer, default 10000
+     * @throws When the capacity is not a positive integer
+     */
+    startTracing(capacity?: number): void
+    /**
+     * Stop to trace jobs. The ring buffer keeps the recorded events.
+     */
+    stopTracing(): void
+    /**
+     * Obtain the trace events in the ring buffer.
+     * @returns An array with trace events in chronological order
+     */
+    traceEvents(): Theater.TraceEvent[]
   }
   namespace Theater {
     /**
@@ -118,12 +199,31 @@ declare module 'std.theater' {
     interface Job<T> extends Future.Teleprompter<T>, PromiseLike<T> {
       /**
        * Run this job if it was inert. Otherwise do nothing.
+       * A job that runs while the theater is showing another job, is scoped to the showing job, unless it is detached.
+       * A job that a scene yields on, is scoped in the same way.
        */
       run(): void
       /**
        * Quit this job if it's not done. Otherwise do nothing.
+       * The scoped jobs of a job quit when the job quits or fails. They outlive the job when it succeeds.
        */
       quit(): void
+      /**
+       * Detach this job from the scope of the job that runs it.
+       * A detached job does not quit when the other job quits or fails.
+       * @returns This job
+       */
+      detach(): Job<T>
+      /**
+       * Set the deadline of this job if it's not done. Otherwise do nothing.
+       * The countdown starts when the job runs. A new deadline restarts the countdown of a running job.
+       * When the deadline passes, the job fails with a timeout blooper and the supervisor of the actor deals with
+       * the incident.
+       * @param ms Deadline in milliseconds
+       * @returns This job
+       * @throws When the deadline is not a positive number
+       */
+      deadline(ms: number): Job<T>
     }
     /**
      * An actor plays scenes on the theater stage.
@@ -167,6 +267,36 @@ declare module 'std.theater' {
        */
       readonly parameters: unknown[]
     }
+    /**
+     * Cause of death.
+     * A killed actor has performed the death scene.
+     * A punished actor was buried by its supervisor after an incident.
+     * An escalated actor was buried by its supervisor, which escalated the incident.
+     * An orphaned actor was buried because its supervisor died or was recast.
+     */
+    type Cause = "killed" | "punished" | "escalated" | "orphaned"
+    /**
+     * A termination record describes the death of an actor.
+     */
+    interface Termination {
+      /**
+       * Cause of death.
+       */
+      readonly cause: Cause
+      /**
+       * Last incident of the actor, if any, even if it was forgiven or the actor was recast afterwards.
+       */
+      readonly incident?: Incident<Actor>
+    }
+    /**
+     * Timeout blooper of a job that missed its deadline.
+     */
+    interface Timeout extends Error {
+      /**
+       * Deadline in milliseconds that expired.
+       */
+      readonly deadline: number
+    }
     /**
      * Escalation error wraps a theater incident.
      */
@@ -197,6 +327,8 @@ declare module 'std.theater' {
      * With the verdict "punish", the actor is killed. The actor becomes a ghost that cannot work on jobs.
      * With the verdict "escalate", the actor is killed and the failure bubbles up in the supervision hierarchy.
      * A recast verdict object installs a fresh role for the actor. The old role is disposed, including its jobs.
+     * The supervision strategy of the actor determines whether siblings are recast as well, and whether the recast
+     * is delayed or turned into an escalation.
      */
     type Verdict = "forgive" | "punish" | "escalate" | { recast: Casting<Actor, Actor, unknown[]> }
     /**
@@ -215,6 +347,318 @@ declare module 'std.theater' {
        * Guard for incidents of new actor.
        */
       guard: Guard<A, C>
+      /**
+       * Optional default deadline in milliseconds for jobs that are sent to new actor.
+       * Casting fails when the deadline is not a positive number.
+       */
+      deadline?: number
+      /**
+       * Optional supervision strategy of new actor.
+       * Siblings that are cast with the same strategy object form a sibling group.
+       */
+      strategy?: Strategy
+      /**
+       * Optional mailbox of new actor. By default, a mailbox has unlimited capacity.
+       */
+      mailbox?: Mailbox
+      /**
+       * Optional priority class of new actor. Defaults to "normal".
+       */
+      priority?: PriorityClass
+    }
+    /**
+     * A priority class determines which ready actors the theater stage prefers.
+     * Within the budget of an interrupt occurence, the stage prefers actors of higher priority classes.
+     * A priority class ages when the stage passes over its ready actors. The stage prefers an aged priority class, such
+     * that actors of lower priority classes are not starved.
+     */
+    type PriorityClass = "interactive" | "normal" | "background"
+    /**
+     * Configuration settings of the theater service.
+     */
+    interface Settings {
+      /**
+       * Optional time budgets of interrupt occurences.
+       */
+      readonly budgets?: Budgets
+      /**
+       * Number of recent interrupt occurences in rolling statistics. Must be a positive integer. Defaults to 100.
+       */
+      readonly window?: number
+      /**
+       * Number of scene selectors with the longest stage performances in metrics. Must be a positive integer.
+       * Defaults to 10.
+       */
+      readonly hogs?: number
+    }
+    /**
+     * Time budgets in milliseconds of interrupt occurences on the theater stage. Budgets must be positive numbers.
+     * The stage stops to perform gigs when the budget of an interrupt occurence has been exhausted.
+     */
+    interface Budgets {
+      /**
+       * Budget of synchronous interrupt occurences, which perform surprise acts. Defaults to 4.
+       */
+      readonly immediate?: number
+      /**
+       * Budget of interrupt occurences in microtasks. Defaults to 6.
+       */
+      readonly fast?: number
+      /**
+       * Budget of interrupt occurences in macrotasks. Defaults to 10.
+       */
+      readonly normal?: number
+    }
+    /**
+     * Phase of a traced job.
+     * A job starts when its scene begins, it yields when its scene leaves the stage to wait for a hint, it resumes
+     * when its scene continues on stage and it completes when it succeeds or fails.
+     */
+    type TracePhase = "start" | "yield" | "resume" | "complete"
+    /**
+     * A trace event records the phase of a traced job.
+     */
+    interface TraceEvent {
+      /**
+       * Trace id is shared by jobs whose scenes create each other.
+       */
+      readonly trace: number
+      /**
+       * Unique job id.
+       */
+      readonly job: number
+      /**
+       * Id of job whose scene created the job, if it was traced.
+       */
+      readonly parent?: number
+      /**
+       * Unique actor id.
+       */
+      readonly actor: number
+      /**
+       * Name of role class, or an empty string if the job completes before it starts.
+       */
+      readonly role: string
+      /**
+       * Scene selector, or name of scenic code.
+       */
+      readonly selector: string
+      /**
+       * Phase of job.
+       */
+      readonly phase: TracePhase
+      /**
+       * Time of event in milliseconds.
+       */
+      readonly time: number
+      /**
+       * True if the job completes with a blooper, false if it completes with a prompt.
+       */
+      readonly failed?: boolean
+    }
+    /**
+     * Scheduling metrics of the theater stage.
+     */
+    interface Metrics {
+      /**
+       * Configured time budgets.
+       */
+      readonly budgets: Required<Budgets>
+      /**
+       * Number of sampled interrupt occurences in rolling statistics.
+       */
+      readonly interrupts: number
+      /**
+       * Milliseconds between cause and handling of interrupt occurences.
+       */
+      readonly latency: Statistic
+      /**
+       * Number of interrupt occurences that overran their budget.
+       */
+      readonly overruns: number
+      /**
+       * Milliseconds that interrupt occurences exceeded their budget.
+       */
+      readonly excess: Statistic
+      /**
+       * Number of stage performances in interrupt occurences.
+       */
+      readonly gigs: Statistic
+      /**
+       * Scene selectors with the longest stage performances, in descending order.
+       */
+      readonly hogs: SceneStatistic[]
+    }
+    /**
+     * Summary of sampled values.
+     */
+    interface Statistic {
+      /**
+       * Mean of sampled values or zero without samples.
+       */
+      readonly mean: number
+      /**
+       * Maximum of sampled values or zero without samples.
+       */
+      readonly maximum: number
+    }
+    /**
+     * Statistics of stage performances with a scene selector.
+     * A job performs on stage when it starts and every time it resumes after a yield.
+     */
+    interface SceneStatistic {
+      /**
+       * Scene selector. The selector of scenic code, which is not a scene method, is the function name.
+       */
+      readonly selector: string | symbol
+      /**
+       * Number of stage performances.
+       */
+      readonly performances: number
+      /**
+       * Total duration of stage performances in milliseconds.
+       */
+      readonly total: number
+      /**
+       * Longest duration of one stage performance in milliseconds.
+       */
+      readonly longest: number
+    }
+    /**
+     * Status of a living actor on the theater stage.
+     * A busy actor is performing on stage. A suspended actor cannot work on jobs.
+     * A ready actor wants to perform running jobs. A waiting actor anticipates jobs that wait for a signal.
+     * An idle actor has nothing to do.
+     */
+    type ActorStatus = "busy" | "suspended" | "ready" | "waiting" | "idle"
+    /**
+     * A snapshot captures the state of a living actor and its team.
+     */
+    interface Snapshot {
+      /**
+       * Captured actor.
+       */
+      readonly actor: Actor
+      /**
+       * Supervisor of captured actor, except for the theater director.
+       */
+      readonly supervisor?: Actor
+      /**
+       * Class name of role that the actor is playing.
+       */
+      readonly role: string
+      /**
+       * Status of actor on stage.
+       */
+      readonly status: ActorStatus
+      /**
+       * Priority class of actor.
+       */
+      readonly priority: PriorityClass
+      /**
+       * Number of pending jobs of the actor.
+       */
+      readonly jobs: JobCounts
+      /**
+       * Selectors of jobs that the actor has started to perform.
+       * The selector of scenic code, which is not a scene method, is the function name.
+       */
+      readonly selectors: (string | symbol)[]
+      /**
+       * Snapshots of supervised team members, in order of casting.
+       */
+      readonly team: Snapshot[]
+    }
+    /**
+     * Number of pending jobs by status.
+     */
+    interface JobCounts {
+      /**
+       * Number of jobs that are ready to perform on stage.
+       */
+      readonly running: number
+      /**
+       * Number of jobs that wait for a signal.
+       */
+      readonly anticipated: number
+      /**
+       * Number of jobs that are postponed until the role has been initialized.
+       */
+      readonly postponed: number
+      /**
+       * Number of messages that are blocked until the mailbox has room.
+       */
+      readonly blocked: number
+      /**
+       * Number of messages in the mailbox that the actor has not started to perform.
+       */
+      readonly queued: number
+      /**
+       * Number of jobs that the role has stashed.
+       */
+      readonly stashed: number
+    }
+    /**
+     * A mailbox queues messages that an actor has not started to perform.
+     * Messages are jobs that are sent to an actor by invoking its methods.
+     */
+    interface Mailbox {
+      /**
+       * Maximum number of queued messages.
+       */
+      readonly capacity: number
+      /**
+       * Overflow policy when a new message arrives in a full mailbox. Defaults to "reject".
+       * With "reject", the new message fails with a blooper.
+       * With "drop-oldest", the oldest message in the mailbox fails with a blooper and the new message is queued.
+       * With "wait", the new message waits until the mailbox has room.
+       */
+      readonly overflow?: "reject" | "drop-oldest" | "wait"
+    }
+    /**
+     * A supervision strategy determines how a recast verdict affects a sibling group.
+     * The strategy object identifies the sibling group. Siblings whose castings refer to equal, but distinct strategy
+     * objects are not in the same group, and they do not share the restart intensity.
+     */
+    interface Strategy {
+      /**
+       * With "one-for-one", only the offender is recast. This is the default.
+       * With "one-for-all", all actors in the sibling group are recast.
+       * With "rest-for-one", the offender and the actors that were cast after the offender in the sibling group are
+       * recast. Siblings are recast with their own castings.
+       */
+      readonly restart?: "one-for-one" | "one-for-all" | "rest-for-one"
+      /**
+       * Maximum number of recasts of the sibling group in a period. Defaults to Infinity.
+       * A recast verdict that exceeds the intensity escalates instead.
+       */
+      readonly intensity?: number
+      /**
+       * Period in milliseconds of the restart intensity and backoff. Defaults to 5000.
+       */
+      readonly period?: number
+      /**
+       * Optional backoff between recasts of the sibling group.
+       */
+      readonly backoff?: Backoff
+    }
+    /**
+     * An exponential backoff delays a recast.
+     * The delay grows with each recast of the sibling group in the period of the strategy.
+     */
+    interface Backoff {
+      /**
+       * Delay in milliseconds of the first recast in a period.
+       */
+      readonly initial: number
+      /**
+       * Growth factor of the delay. Defaults to 2.
+       */
+      readonly factor?: number
+      /**
+       * Maximum delay in milliseconds. Defaults to Infinity.
+       */
+      readonly maximum?: number
     }
     /**
      * Infer the signatures of scene methods that a role class must implement for an actor.
@@ -269,8 +713,23 @@ declare module 'std.theater' {
        * @throws When this role is not played by the busy actor on stage 
        */
       protected playScene<T, P extends unknown[]>(scenic: Scenic<T, P, this>, ...p: P): Job<T>
+      /**
+       * Defer the job that is performing on stage, until this role unstashes it.
+       * A scene can only stash its job before it yields. When the job is unstashed, the scene starts from scratch.
+       * Stashed jobs are stopped when the role is disposed.
+       * @throws Always, to end the performance of the scene
+       * @throws When this role is not played by the busy actor on stage 
+       */
+      protected stashJob(): never
+      /**
+       * Return all stashed jobs in front of other jobs of the actor, in the order in which they were stashed.
+       * When the role is still initializing, the unstashed jobs are postponed until the initialization is complete.
+       * @throws When this role is not played by the busy actor on stage 
+       */
+      protected unstashJobs(): void
       /**
        * Create and supervise a child actor.
+       * The strategy of the casting adds the child to a sibling group, if any.
        * @param casting Casting of new child actor
        * @returns A new child actor
        * @throws When this role is not played by the busy actor on stage 
@@ -278,6 +737,197 @@ declare module 'std.theater' {
       protected castChild<C extends Actor, P extends unknown[]>(casting: Casting<A, C, P>): C
       public kill(): Scene<boolean>
     }
+    /**
+     * An automaton is an actor whose role is a finite state machine.
+     */
+    interface Automaton extends Actor {
+      /**
+       * Obtain the name of the current state.
+       * @returns Eventually the current state name
+       */
+      state(): Job<string>
+      /**
+       * Observe the next transition of this automaton.
+       * @returns Eventually the next transition
+       */
+      transition(): Job<Transition>
+    }
+    /**
+     * A transition between two states of a finite state machine.
+     */
+    interface Transition {
+      /**
+       * Name of state that the machine has left.
+       */
+      readonly from: string
+      /**
+       * Name of state that the machine has entered.
+       */
+      readonly to: string
+    }
+    /**
+     * Definition of a finite state machine.
+     */
+    interface Machine<R> {
+      /**
+       * Name of initial state. The machine does not perform the enter scene of the initial state.
+       */
+      readonly initial: string
+      /**
+       * States by name.
+       */
+      readonly states: { readonly [name: string]: MachineState<R> }
+    }
+    /**
+     * A state of a finite state machine.
+     */
+    interface MachineState<R> {
+      /**
+       * Scene selectors of jobs that the machine accepts in this state.
+       * The kill, state and transition selectors are accepted in all states.
+       */
+      readonly accepts: readonly (string | symbol)[]
+      /**
+       * Policy for jobs that the machine does not accept in this state.
+       * A postponed job is stashed until the next transition, when it is screened again.
+       * A rejected job fails with a blooper, without a stage incident. Default is reject.
+       */
+      readonly otherwise?: "postpone" | "reject"
+      /**
+       * Perform a scene when the machine enters this state.
+       * @param previous Name of state that the machine leaves
+       * @returns Enter scene
+       */
+      enter?(this: R, previous: string): Scene<void>
+      /**
+       * Perform a scene when the machine exits this state.
+       * @param next Name of state that the machine enters
+       * @returns Exit scene
+       */
+      exit?(this: R, next: string): Scene<void>
+    }
+    /**
+     * A machine role screens jobs according to the current state of a finite state machine.
+     * Jobs of extra scenes, which are not selected by name, are not screened.
+     */
+    abstract class MachineRole<A extends Automaton> extends Role<A> implements Script<Automaton> {
+      /**
+       * Define the states of this machine. The definition is obtained once, when the first job is screened.
+       * Default throws an error, so subclasses must define their own machine.
+       * This method should not be called directly by user code.
+       * @returns The machine definition
+       * @throws When the definition does not include the initial state
+       */
+      protected defineMachine(): Machine<this>
+      /**
+       * Name of the current state.
+       */
+      protected readonly currentState: string
+      /**
+       * Perform a transition to another state.
+       * The transition performs the exit scene of the current state and the enter scene of the next state.
+       * Observers are notified and stashed jobs are unstashed, after the machine has entered the next state.
+       * @param next Name of state to enter
+       * @returns Transition scene
+       * @throws When this role is not played by the busy actor on stage 
+       * @throws When the next state is unknown
+       */
+      protected transitionTo(next: string): Scene<void>
+      public state(): Scene<string>
+      public transition(): Scene<Transition>
+    }
+    /**
+     * A pool manages identical routees.
+     */
+    interface Pool extends Actor {
+      /**
+       * Resize this pool. The pool casts new routees or kills surplus routees, which were cast most recently.
+       * @param size New number of routees
+       * @returns Eventually nothing
+       * @throws When the size is not a positive integer
+       */
+      resize(size: number): Job<void>
+      /**
+       * Obtain the size of this pool.
+       * @returns Eventually the number of routees
+       */
+      size(): Job<number>
+    }
+    /**
+     * A router is a pool that performs the jobs of its routees.
+     * A forwarded job fails with the blooper of the routee, which is an incident of the routee and not of the router.
+     * Routees that die are removed from the pool.
+     */
+    type Router<A extends Actor> = A & Pool
+    /**
+     * Strategy to select the routee of a job.
+     * A round-robin router selects routees in turn.
+     * A least-busy router selects the routee with the fewest running and anticipated jobs.
+     * A consistent-hash router selects a routee by the hash of a job parameter. Jobs with the same parameter are
+     * routed to the same routee, and resizing the pool only moves the parameters of added or removed routees.
+     */
+    type RoutingStrategy = "round-robin" | "least-busy" | "consistent-hash"
+    /**
+     * Routing settings of a router.
+     */
+    interface Routing<A extends Actor> {
+      /**
+       * Casting of routees.
+       */
+      readonly casting: Casting<Router<A>, A, unknown[]>
+      /**
+       * Initial number of routees.
+       */
+      readonly size: number
+      /**
+       * Strategy to select routees. Default is round-robin.
+       */
+      readonly strategy?: RoutingStrategy
+      /**
+       * Index of job parameter for a consistent-hash router. The parameter is converted to a string to compute the
+       * hash. Default is 0.
+       */
+      readonly key?: number
+    }
+    /**
+     * An event bus delivers published events to subscribers of a topic.
+     * A subscriber receives an event when the bus invokes a scene with the topic and the event as parameters.
+     * Subscriptions are removed when the subscriber dies.
+     * A nearby actor of the system service can subscribe on behalf of an actor in another subsystem, provided that
+     * the events can be transferred between subsystems. A nearby event bus that subscribes with the publish selector,
+     * republishes the events in the other subsystem. The subscriptions of a nearby actor are removed when the actor in
+     * the other subsystem dies, because the nearby actor dies with it once it has forwarded an event.
+     */
+    interface EventBus extends Actor {
+      /**
+       * Subscribe an actor to a topic. A new subscription replaces an existing subscription of the actor.
+       * @param topic Topic of events
+       * @param subscriber Actor that receives the events
+       * @param selector Selector of the scene that receives a topic and an event
+       * @returns Eventually nothing
+       */
+      subscribe(topic: string, subscriber: Actor, selector: string | symbol): Job<void>
+      /**
+       * Unsubscribe an actor from a topic. Otherwise do nothing.
+       * @param topic Topic of events
+       * @param subscriber Actor that no longer receives the events
+       * @returns Eventually nothing
+       */
+      unsubscribe(topic: string, subscriber: Actor): Job<void>
+      /**
+       * Publish an event to the subscribers of a topic.
+       * The bus does not wait for the subscribers to receive the event.
+       * @param topic Topic of event
+       * @param event Event to publish
+       * @returns Eventually the number of subscribers that receive the event
+       */
+      publish(topic: string, event: unknown): Job<number>
+      /**
+       * Obtain the topics with subscribers.
+       * @returns Eventually an array with topics
+       */
+      topics(): Job<string[]>
+    }
     /**
      * A role class defines scene methods for actors.
      */
@@ -0,0 +1,4 @@
+export const definitions = {
+  "Theater.Budgets": "{immediate:number?,fast:number?,normal:number?}",
+  "Theater.Settings": "{budgets:Theater.Budgets?,window:int32?,hogs:int32?}?"
+}
@@ -6,8 +6,9 @@ import type Loop from 'std.loop'
 import type News from 'std.news'
 import type Theater from 'std.theater'
 // --- JavaScript ---
-export default async ({ use }: Contract<Theater>): Promise<Theater> => {
+export default async ({ use, configuration }: Contract<Theater>): Promise<Theater> => {
   [future, fx, kernel, loop, news] = await use('std.future', 'std.fx', 'std.kernel', 'std.loop', 'std.news')
+  settings = await configuration<Theater.Settings | null>("Theater.Settings") ?? {}
   return import("./intern.js")
 }
-export let future: Future, fx: Fx, kernel: Kernel, loop: Loop, news: News
+export let future: Future, fx: Fx, kernel: Kernel, loop: Loop, news: News, settings: Theater.Settings
@@ -1,8 +1,12 @@
 // --- JavaScript ---
 export { Play } from "./intern/scene.js"
 export { Role } from "./intern/role.js"
+export { MachineRole } from "./intern/machine.js"
+export { Router } from "./intern/router.js"
+export { EventBus } from "./intern/bus.js"
 export { isShowing } from "./intern/stage.js"
 export { isEscalation } from "./intern/gig.js"
+export { isTimeout } from "./intern/gig.js"
 export { isJob } from "./intern/gig.js"
 export { isInert } from "./intern/gig.js"
 export { isActor } from "./intern/agent.js"
@@ -13,3 +17,11 @@ export { run } from "./intern/agent.js"
 export { surprise } from "./intern/gig.js"
 export { cast } from "./intern/agent.js"
 export { mourn } from "./intern/agent.js"
+export { watch } from "./intern/agent.js"
+export { deliver } from "./intern/gig.js"
+export { queueLength } from "./intern/agent.js"
+export { snapshot } from "./intern/agent.js"
+export { metrics } from "./intern/stage.js"
+export { startTracing } from "./intern/trace.js"
+export { stopTracing } from "./intern/trace.js"
+export { traceEvents } from "./intern/trace.js"
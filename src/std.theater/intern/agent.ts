@@ -1,7 +1,11 @@
 // --- TypeScript ---
 import type Theater from 'std.theater'
 import type Future from 'std.future'
+import type { Screening } from "./machine.ts"
 type Actor = Theater.Actor
+type AnyCasting = Theater.Casting<Actor, Actor, unknown[]>
+// a team member is recast with a casting after a delay in milliseconds
+type Recast = [member: Agent, casting: AnyCasting, delay: number]
 type Immortals = [Janitor, Troupe]
 interface Director extends Actor {
   bootstrap(): Theater.Job<Immortals>
@@ -9,12 +13,12 @@ interface Director extends Actor {
 interface Janitor extends Actor { }
 interface Troupe extends Actor { }
 // --- JavaScript ---
-import { fx, news } from "../extern.js"
+import { fx, kernel, news } from "../extern.js"
 import { Gig, surprise } from "./gig.js"
 import { Destiny, ExclusiveStatus } from "./lifecycle.js"
 import { Role } from "./role.js"
-import { Play, doNothing, isSceneMethod } from "./scene.js"
-import { negotiate } from "./stage.js"
+import { Play, doNothing, isSceneMethod, screening } from "./scene.js"
+import { isShowing, negotiate, showing } from "./stage.js"
 
 export function isActor<A extends Actor>(it: unknown): it is A {
   return facade.isHandling(it)
@@ -45,6 +49,27 @@ export function mourn(actor: Actor): Future.Cue<void> {
   return facade.expose(actor).completion.autocue()
 }
 
+export function watch(actor: Actor): Future.Cue<Theater.Termination> {
+  return facade.expose(actor).completion.autocue() as Future.Cue<Theater.Termination>
+}
+
+export function queueLength(actor: Actor): number {
+  return facade.expose(actor).queueLength
+}
+
+export function isDead(actor: Actor) {
+  return !!facade.expose(actor).fate
+}
+
+export function busyness(actor: Actor): number {
+  const { workload, agenda } = facade.expose(actor)
+  return workload.size + agenda.size
+}
+
+export function snapshot(): Theater.Snapshot {
+  return facade.expose(director).snapshot()
+}
+
 export class Agent extends Destiny {
   // corresponding actor handle
   readonly #actor: Actor
@@ -54,6 +79,10 @@ export class Agent extends Destiny {
   #manager?: Agent
   // all team members and their supervision guards
   #team?: Map<Agent, Theater.Guard<Actor, Actor>>
+  // times of recent recasts in sibling groups of team
+  #recasts?: Map<Theater.Strategy, number[]>
+  // casting of role that actor is playing, if it is supervised
+  #casting?: AnyCasting
   // ready to work on gigs from workload
   #workload?: ExclusiveStatus<Gig>
   // anticipating to work on gigs from agenda
@@ -62,8 +91,18 @@ export class Agent extends Destiny {
   #initializing?: Gig
   // postponing gigs until initialization is complete
   #postponing?: ExclusiveStatus<Gig>
+  // messages that have been posted, but not performed yet, in order of arrival
+  #mailbox?: Set<Gig>
+  // blocking messages until mailbox has room
+  #blocked?: ExclusiveStatus<Gig>
+  // deferring stashed gigs until role unstashes them
+  #stashing?: ExclusiveStatus<Gig>
   // role encapsulates transient state of actor
   #role?: Theater.Role<Actor>
+  // default deadline in milliseconds of jobs for actor
+  #deadline?: number
+  // last incident of actor, if any
+  #incident?: Theater.Incident<Actor>
   // install or reinstall fresh role
   #initialize(Role: Theater.RoleClass<Actor, unknown[]>, p: unknown[]) {
     // @ts-ignore: access protected method
@@ -103,17 +142,20 @@ export class Agent extends Destiny {
     }
     for (const member of this.#team!.keys()) {
       // all team members die upon reset
-      member.bury()
+      member.bury("orphaned")
     }
+    this.#recasts = void 0
     const agenda = this.#agenda!, workload = this.#workload!, postponing = this.#postponing, role = this.#role!
+    const blocked = this.#blocked!, stashing = this.#stashing!
     // @ts-ignore: access protected method
     const { disposeRole } = role
-    for (let gig: Gig | undefined; (gig = agenda.first ?? workload.first ?? postponing?.first);) {
+    for (let gig: Gig | undefined;
+      (gig = blocked.first ?? stashing.first ?? agenda.first ?? workload.first ?? postponing?.first);) {
       gig.stop(reason)
     }
     if (disposeRole !== doNothing) {
-      // clean up with janitor
-      run(disposeRole.bind(role))
+      // clean up with janitor, which must not quit with a failing job that is showing on stage
+      new Gig(facade.expose(janitor), anonymous, [disposeRole.bind(role), []]).start()
     }
     if (this.#team!.size) {
       throw new Error("team should be empty after reset")
@@ -127,20 +169,55 @@ export class Agent extends Destiny {
     if (this.#postponing?.size) {
       throw new Error("stalling should be empty after reset")
     }
+    if (this.#mailbox!.size) {
+      throw new Error("mailbox should be empty after reset")
+    }
+  }
+  // admit gig unless it is a new message that overflows the mailbox
+  #admit(gig: Gig) {
+    const mailbox = this.#mailbox!
+    if (!gig.isMessage || gig.isPerforming || mailbox.has(gig)) {
+      return true
+    }
+    const { capacity = Infinity, overflow = "reject" } = this.#casting?.mailbox ?? {}
+    if (mailbox.size >= capacity) {
+      switch (overflow) {
+        case "reject":
+          gig.stop("mailbox overflow")
+          return false
+        case "wait":
+          // block gig until a message is released
+          this.#blocked!.add(gig)
+          return false
+        case "drop-oldest":
+          // stopping the oldest message releases it from the mailbox
+          mailbox.values().next().value!.stop("mailbox overflow")
+          break
+        default:
+          throw new Error(`invalid mailbox overflow policy "${overflow}"`)
+      }
+    }
+    mailbox.add(gig)
+    return true
   }
   #ghost(message: string) {
     if (this.fate) {
       throw new Error(`${message} after fate has been sealed`)
     }
   }
-  constructor(Role: Theater.RoleClass<Actor, unknown[]>, p: unknown[], manager?: Agent) {
+  constructor(Role: Theater.RoleClass<Actor, unknown[]>, p: unknown[], manager?: Agent, deadline?: number) {
     super()
     this.#actor = facade.handle(this)
+    this.#deadline = deadline
+    this.#recasts = this.#casting = this.#incident = void 0
     this.#suspended = false
     this.#manager = manager ?? this
     this.#team = new Map()
     this.#workload = new ExclusiveStatus("running")
     this.#agenda = new ExclusiveStatus("anticipated")
+    this.#mailbox = new Set()
+    this.#blocked = new ExclusiveStatus("blocked")
+    this.#stashing = new ExclusiveStatus("stashed")
     this.#initialize(Role, p)
     negotiate(this)
   }
@@ -150,6 +227,15 @@ export class Agent extends Destiny {
   public get isInitializing() {
     return !!this.#initializing
   }
+  public get deadline() {
+    return this.#deadline
+  }
+  public get priority(): Theater.PriorityClass {
+    return this.#casting?.priority ?? "normal"
+  }
+  public get queueLength() {
+    return this.#mailbox?.size ?? 0
+  }
   public get actor() {
     return this.#actor
   }
@@ -169,8 +255,41 @@ export class Agent extends Destiny {
     this.#ghost("actor does not have an agenda")
     return this.#agenda!
   }
-  public createScene({ selector, parameters }: Gig): Theater.Scene<unknown> {
-    const { role } = this
+  public snapshot(): Theater.Snapshot {
+    const manager = this.manager, workload = this.workload, agenda = this.agenda, blocked = this.#blocked!
+    const performing = [...agenda, ...workload].filter(gig => gig.isPerforming)
+    if (isShowing() && showing().agent === this) {
+      // gig that is showing on stage is neither anticipated nor running
+      performing.unshift(showing())
+    }
+    return {
+      actor: this.#actor,
+      supervisor: manager === this ? void 0 : manager.actor,
+      role: this.role.constructor.name,
+      status: this.status!.name as Theater.ActorStatus,
+      priority: this.priority,
+      jobs: {
+        running: workload.size,
+        anticipated: agenda.size,
+        postponed: this.#postponing?.size ?? 0,
+        blocked: blocked.size,
+        queued: this.#mailbox!.size,
+        stashed: this.#stashing!.size,
+      },
+      selectors: performing.map(({ selector }) => typeof selector === "function" ? selector.name : selector),
+      team: [...this.#team!.keys()].map(member => member.snapshot()),
+    }
+  }
+  public screen(gig: Gig): Screening {
+    const { role } = this, { selector } = gig
+    // @ts-ignore: probe for screening method
+    const screen: ((selector: string | symbol) => Screening) | undefined = role[screening]
+    return typeof selector === "function" || !screen ? void 0 : screen.call(role, selector)
+  }
+  public createScene(gig: Gig): Theater.Scene<unknown> {
+    const { role } = this, { selector, parameters } = gig
+    // performance of message begins
+    this.release(gig)
     if (typeof selector === "function") {
       return selector.apply(role, parameters)
     } else {
@@ -193,7 +312,8 @@ export class Agent extends Destiny {
     this.#suspended = true
     negotiate(this)
   }
-  public resume({ Role, p, guard }: Theater.Casting<Actor, Actor, unknown[]>) {
+  public resume(casting: AnyCasting) {
+    const { Role, p, guard } = casting, deadline = castingDeadline(casting)
     this.#ghost("actor cannot resume")
     if (!this.#suspended) {
       throw new Error("should be suspended on resumption")
@@ -205,23 +325,72 @@ export class Agent extends Destiny {
     team.set(this, guard)
     this.#reset("actor recast")
     // leave suspended state with fresh role
+    this.#casting = casting
+    this.#deadline = deadline
     this.#suspended = false
     this.#initialize(Role, p)
     negotiate(this)
   }
-  public bury() {
+  public bury(cause: Theater.Cause) {
     this.#reset("actor funeral")
     // remove all tracks of ghost team member
     this.#manager!.#team!.delete(this)
-    this.#manager = this.#team = this.#role = this.#workload = this.#agenda =
-      this.#initializing = this.#postponing = void 0
-    this.finish({})
+    const incident = this.#incident
+    this.#manager = this.#team = this.#role = this.#workload = this.#agenda = this.#initializing =
+      this.#postponing = this.#casting = this.#mailbox = this.#blocked = this.#stashing = this.#incident = void 0
+    // reveal termination record to watchers
+    const termination: Theater.Termination = incident ? { cause, incident } : { cause }
+    this.finish({ prompt: termination })
+  }
+  public recordIncident(incident: Theater.Incident<Actor>) {
+    this.#incident = incident
   }
-  public cast({ Role, p, guard }: Theater.Casting<Actor, Actor, unknown[]>): Agent {
-    const member = new Agent(Role, p, this)
+  public cast(casting: AnyCasting): Agent {
+    const { Role, p, guard } = casting, deadline = castingDeadline(casting)
+    const member = new Agent(Role, p, this, deadline)
+    member.#casting = casting
     this.#team!.set(member, guard)
     return member
   }
+  // plan recasts of suspended offender and its sibling group, or nothing when the offender should escalate instead
+  public planRecasts(offender: Agent, recast: AnyCasting): Recast[] | undefined {
+    const team = this.#team!, strategy = offender.#casting?.strategy
+    if (!team.has(offender)) {
+      throw new Error("offender must be a supervised team member")
+    }
+    if (!strategy) {
+      // default one-for-one strategy without limits
+      return [[offender, recast, 0]]
+    }
+    const { restart = "one-for-one", intensity = Infinity, period = 5000, backoff } = strategy
+    const now = kernel.now(), recasts = this.#recasts ??= new Map<Theater.Strategy, number[]>()
+    // forget recasts before the period
+    const recent = (recasts.get(strategy) ?? []).filter(time => now - time < period)
+    if (recent.length >= intensity) {
+      recasts.set(strategy, recent)
+      return void 0
+    }
+    const delay = backoff ?
+      Math.min(backoff.maximum ?? Infinity, backoff.initial * (backoff.factor ?? 2) ** recent.length) : 0
+    recent.push(now)
+    recasts.set(strategy, recent)
+    // team members in order of casting
+    const siblings = [...team.keys()].filter(member => member.#casting?.strategy === strategy)
+    const group = restart === "one-for-all" ? siblings :
+      restart === "rest-for-one" ? siblings.slice(siblings.indexOf(offender)) :
+        [offender]
+    const plan: Recast[] = []
+    for (const member of group) {
+      if (member === offender) {
+        plan.push([member, recast, delay])
+      } else if (!member.#suspended) {
+        // siblings are recast with their own castings
+        member.suspend()
+        plan.push([member, member.#casting!, delay])
+      }
+    }
+    return plan
+  }
   // utility method for thenable jobs
   public settleHint(hint: Future.Hint<unknown>, resolve: (it: unknown) => void, reject: (reason: unknown) => void) {
     return new Gig(facade.expose(janitor), settleHint, [hint, resolve, reject]).job
@@ -243,6 +412,13 @@ export class Agent extends Destiny {
     if (this.fate) {
       // ghost is not allowed to work on gigs
       gig.stop("ghost encounter")
+    } else if (gig.isExpired) {
+      // expired gig skips the mailbox and initialization to take the stage for supervision
+      this.#workload!.add(gig)
+      negotiate(this)
+    } else if (!this.#admit(gig)) {
+      // mailbox overflow rejected or blocked the gig
+      return
     } else {
       // add more work
       if (this.#initializing && gig !== this.#initializing) {
@@ -256,6 +432,37 @@ export class Agent extends Destiny {
         this.#workload!.add(gig)
       }
       negotiate(this)
+      gig.admitted()
+    }
+  }
+  public canStash(gig: Gig) {
+    return gig.agent === this && gig !== this.#initializing
+  }
+  public stash(gig: Gig) {
+    if (!this.canStash(gig)) {
+      throw new Error("cannot stash job")
+    }
+    this.#stashing!.add(gig)
+    negotiate(this)
+  }
+  public unstash() {
+    const stashed = [...this.#stashing!].reverse()
+    for (const gig of stashed) {
+      // unstashed gigs precede other gigs in order of stashing, but not before initialization is complete
+      const status = this.#initializing ? this.#postponing ??= new ExclusiveStatus("postponed") : this.#workload!
+      status.add(gig, true)
+    }
+    negotiate(this)
+  }
+  // release message from mailbox when it is performed or finished
+  public release(gig: Gig) {
+    const mailbox = this.#mailbox
+    if (mailbox && mailbox.delete(gig)) {
+      // admit blocked message, now that the mailbox has room
+      const blocked = this.#blocked!.first
+      if (blocked) {
+        this.post(blocked)
+      }
     }
   }
 }
@@ -265,8 +472,9 @@ export class Agent extends Destiny {
 const facade = fx.facade<Actor, Agent>("std.theater:Actor", new Proxy(Object.create(null), {
   get(_ignored: never, selector: string | symbol) {
     return jobFactoryCache[selector] ??= function createJob(this: Actor, ...p: unknown[]) {
-      // create job for this particular actor
-      return new Gig(facade.expose(this), selector, p).job
+      const agent = facade.expose(this)
+      // create job for this particular actor, with default deadline of actor
+      return new Gig(agent, selector, p, agent.deadline).job
     }
   }
 }))
@@ -285,6 +493,13 @@ function* settleHint<T>(hint: Future.Hint<T>, resolve: (result: T) => void, reje
     resolve(prompt!)
   }
 }
+// default deadline of jobs for actor, which must be a positive number of milliseconds if a casting defines it
+function castingDeadline({ deadline }: AnyCasting): number | undefined {
+  if (deadline !== void 0 && (!Number.isFinite(deadline) || deadline <= 0)) {
+    throw new Error("casting deadline must be a positive number of milliseconds")
+  }
+  return deadline
+}
 // base class for roles of immortal actors
 class ImmortalRole extends Role<Actor>()(Object) {
   @Play public *kill() {
@@ -0,0 +1,81 @@
+// --- TypeScript ---
+import type Theater from 'std.theater'
+type Actor = Theater.Actor
+// subscribers of a topic with the selectors of their scenes that receive events
+type Subscribers = Map<Actor, string | symbol>
+// --- JavaScript ---
+import { mourn } from "./agent.js"
+import { Role } from "./role.js"
+import { Play } from "./scene.js"
+
+export function EventBus(): Theater.RoleClass<Theater.EventBus, []> {
+  return EventBusRole
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+class EventBusRole extends Role<Theater.EventBus>()(Object) implements Theater.Script<Theater.EventBus> {
+  // subscribers by topic
+  readonly #topics: Map<string, Subscribers>
+  // watch jobs of subscribers remove subscriptions when subscribers die
+  readonly #watches: Map<Actor, Theater.Job<void>>
+  // remove subscriber from topic, and stop watching the subscriber when it has no more subscriptions
+  #remove(topic: string, subscriber: Actor) {
+    const topics = this.#topics, subscribers = topics.get(topic)
+    if (subscribers?.delete(subscriber)) {
+      if (subscribers.size === 0) {
+        topics.delete(topic)
+      }
+      const watch = this.#watches.get(subscriber)
+      if (watch && ![...topics.values()].some(others => others.has(subscriber))) {
+        this.#watches.delete(subscriber)
+        watch.quit()
+      }
+    }
+  }
+  constructor() {
+    super()
+    this.#topics = new Map()
+    this.#watches = new Map()
+  }
+  @Play public *subscribe(topic: string, subscriber: Actor, selector: string | symbol): Theater.Scene<void> {
+    const topics = this.#topics, watches = this.#watches
+    let subscribers = topics.get(topic)
+    if (!subscribers) {
+      topics.set(topic, subscribers = new Map())
+    }
+    subscribers.set(subscriber, selector)
+    if (!watches.has(subscriber)) {
+      const watch = this.playScene(function* (this: EventBusRole) {
+        yield mourn(subscriber)
+        // subscriber has died, so remove all its subscriptions without quitting this watch
+        this.#watches.delete(subscriber)
+        for (const [topic, subscribers] of [...this.#topics]) {
+          if (subscribers.has(subscriber)) {
+            this.#remove(topic, subscriber)
+          }
+        }
+      })
+      watches.set(subscriber, watch)
+      // the watch outlives the subscription job
+      watch.detach().run()
+    }
+  }
+  @Play public *unsubscribe(topic: string, subscriber: Actor): Theater.Scene<void> {
+    this.#remove(topic, subscriber)
+  }
+  @Play public *publish(topic: string, event: unknown): Theater.Scene<number> {
+    const subscribers = this.#topics.get(topic)
+    if (!subscribers) {
+      return 0
+    }
+    for (const [subscriber, selector] of subscribers) {
+      // fire and forget the scene that receives the event
+      const receiver = subscriber as unknown as { [selector: string | symbol]: (...p: unknown[]) => Theater.Job<void> }
+      receiver[selector](topic, event).detach().run()
+    }
+    return subscribers.size
+  }
+  @Play public *topics(): Theater.Scene<string[]> {
+    return [...this.#topics.keys()]
+  }
+}
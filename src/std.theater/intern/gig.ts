@@ -2,17 +2,23 @@
 import type Future from 'std.future'
 import type Theater from 'std.theater'
 import type { Agent } from "./agent.ts"
+import type { Tracing } from "./trace.ts"
 type Actor = Theater.Actor
 type Selector = string | symbol | ((...p: any[]) => Theater.Scene<unknown>)
 // --- JavaScript ---
 import { future, fx } from "../extern.js"
 import { Destiny } from "./lifecycle.js"
 import { isShowing, negotiate, performSolo, showing } from "./stage.js"
+import { isTracing, recordEvent, traceActor, traceJob } from "./trace.js"
 
 export function isEscalation<A extends Actor>(it: unknown): it is Theater.Escalation<A> {
   return it instanceof Escalation
 }
 
+export function isTimeout(it: unknown): it is Theater.Timeout {
+  return it instanceof Timeout
+}
+
 export function isJob<T>(it: unknown): it is Theater.Job<T> {
   return facade.isHandling(it)
 }
@@ -21,6 +27,19 @@ export function isInert(job: Theater.Job<unknown>) {
   return facade.expose(job).isInert
 }
 
+export function deliver(job: Theater.Job<unknown>): Future.Cue<void> {
+  const gig = facade.expose(job)
+  if (!gig.isInert) {
+    throw new Error("delivered job must be inert")
+  }
+  return future.once(reveal => gig.deliver(reveal), revealing => {
+    if (!revealing) {
+      // job quits when delivery is cancelled before admission
+      gig.stop("cancel delivery")
+    }
+  })
+}
+
 export function surprise<T>(job: Theater.Job<T>): T {
   if (isShowing()) {
     throw new Error("theater must be closed when surprising")
@@ -66,6 +85,14 @@ export function swallowPoison(): never {
   throw poisonPill
 }
 
+export function stashJob(): never {
+  throw stashMarker
+}
+
+export function relayBlooper(blooper: Error): never {
+  throw new Relay(blooper)
+}
+
 export class Gig extends Destiny {
   // job handle
   readonly #job: Theater.Job<unknown>
@@ -85,21 +112,99 @@ export class Gig extends Destiny {
   #controller?: Future.Cue<unknown>
   // lazy promise
   #promise?: Promise<unknown>
+  // if defined, this gig expires when its deadline in milliseconds passes
+  #deadline?: number
+  // if defined, a rollback cancels the countdown to the deadline
+  #expiration?: Future.Rollback
+  // if defined, this expired gig takes the stage to let the manager supervise its timeout
+  #expired?: Timeout
+  // if defined, reveal admission of this gig in the mailbox of its agent
+  #admission?: Future.Reveal<void>
+  // if defined, the parent gig scopes this gig
+  #parent?: Gig
+  // if defined, scoped children quit when this gig quits or fails
+  #children?: Set<Gig>
+  // true if this gig escapes from the scope of the gig that starts it
+  #detached: boolean
+  // if defined, trace events of this gig are recorded
+  #tracing?: Tracing
+  // record trace event of this gig
+  #trace(agent: Agent, selector: Selector, phase: Theater.TracePhase, failed?: boolean) {
+    const tracing = this.#tracing
+    if (tracing) {
+      const name = typeof selector === "function" ? selector.name : String(selector)
+      recordEvent(tracing, traceActor(agent.actor), name, phase, failed)
+    }
+  }
+  // gig that is showing on stage scopes this gig when it starts
+  #enterScope() {
+    if (!this.#detached && isShowing()) {
+      const parent = showing()
+      this.#parent = parent
+      const children = parent.#children ??= new Set()
+      children.add(this)
+    }
+  }
+  #leaveScope() {
+    const parent = this.#parent
+    if (parent) {
+      this.#parent = void 0
+      parent.#children?.delete(this)
+    }
+  }
   #repost() {
+    this.#countdown()
     this.agent.post(this)
   }
+  #countdown() {
+    const deadline = this.#deadline
+    if (deadline !== void 0 && !this.#expiration && !this.#expired) {
+      this.#expiration = future.commit(future.timeout(deadline), () => {
+        this.#expiration = void 0
+        this.#expire(new Timeout(deadline))
+      })
+    }
+  }
+  #expire(blooper: Timeout) {
+    if (this.agent.isSuspended) {
+      // suspended agent cannot cause incidents
+      this.#abort(blooper)
+    } else {
+      // expiration is an incident of the agent, which is supervised when the expired gig takes the stage
+      const rollback = this.#rollback
+      this.#rollback = void 0
+      this.#expired = blooper
+      // cancel side effects of the hint that the gig was waiting on
+      if (rollback) {
+        rollback()
+      }
+      this.agent.post(this)
+    }
+  }
+  #abort(blooper: Error) {
+    const rollback = this.#rollback
+    // complete gig with blooper
+    this.finish({ blooper })
+    // rollback if gig was waiting on signal from hint
+    if (rollback) {
+      rollback()
+    }
+  }
   #manageBlooper(blooper: Error) {
     const { agent, selector, parameters } = this, { manager } = agent
     // complete this gig with blooper
-    this.finish({ blooper })
+    this.#abort(blooper)
     const incident = {
       offender: agent.actor,
       blooper,
       selector: typeof selector === "function" ? selector.name : selector,
       parameters: parameters,
     }
+    agent.recordIncident(incident)
     // let manager decide what should happen with agent after stage incident
     const verdict = manager.superviseIncident(incident)
+    // recast offender and siblings according to supervision strategy
+    const plan = typeof verdict === "object" && verdict.recast ? manager.planRecasts(agent, verdict.recast) : void 0
     if (verdict === "forgive") {
       // leave agent intact and available for work on other jobs
       negotiate(agent)
@@ -108,13 +213,15 @@ export class Gig extends Destiny {
       agent.suspend()
       if (verdict === "punish") {
         // manager buries the offender
-        new Gig(manager, buryMember, [agent]).#repost()
-      } else if (verdict === "escalate") {
+        new Gig(manager, buryMember, [agent, "punished"]).#repost()
+      } else if (verdict === "escalate" || verdict.recast && !plan) {
         // manager buries the offender, and escalates incident in supervision hierarchy
         new Gig(manager, escalateIncident, [agent, incident]).#repost()
-      } else if (verdict.recast) {
-        // manager resumes offender with a fresh role (all descendants of offender are killed!)
-        new Gig(manager, resumeMember, [agent, verdict.recast]).#repost()
+      } else if (plan) {
+        for (const [member, casting, delay] of plan) {
+          // manager resumes member with a fresh role (all descendants of member are killed!)
+          new Gig(manager, resumeMember, [member, casting, delay]).#repost()
+        }
       } else {
         throw new Error("invalid verdict")
       }
@@ -130,6 +237,7 @@ export class Gig extends Destiny {
     if (this.isInert) {
       // controller sets inert gig in motion
       this.#controller = unique
+      this.#enterScope()
       this.#repost()
     }
   }
@@ -144,18 +252,49 @@ export class Gig extends Destiny {
     }
   }
   protected finish(signal: Future.Signal<unknown>) {
+    const agent = this.#agent, expiration = this.#expiration, admission = this.#admission, children = this.#children
+    if (agent) {
+      this.#trace(agent, this.#selector!, "complete", !!signal.blooper)
+    }
+    this.#leaveScope()
     // clear everything except job handle and promise
-    this.#agent = this.#selector = this.#parameters =
-      this.#scene = this.#progress = this.#rollback = this.#controller = void 0
+    this.#agent = this.#selector = this.#parameters = this.#scene = this.#progress = this.#rollback =
+      this.#controller = this.#deadline = this.#expiration = this.#expired = this.#admission = this.#children = void 0
     super.finish(signal)
+    if (children) {
+      for (const child of children) {
+        child.#parent = void 0
+        // scoped children quit with a failing parent, but they outlive a successful parent
+        if (signal.blooper) {
+          child.stop("quit parent job")
+        }
+      }
+    }
+    // a finished gig cannot expire
+    if (expiration) {
+      expiration()
+    }
+    // a finished gig is no longer a message in the mailbox
+    if (agent) {
+      agent.release(this)
+    }
+    // a gig that finishes before admission reveals its fate to the sender
+    if (admission) {
+      admission(signal.blooper ? { blooper: signal.blooper } : {})
+    }
   }
-  constructor(agent: Agent, selector: Selector, p: unknown[]) {
+  constructor(agent: Agent, selector: Selector, p: unknown[], deadline?: number) {
     super()
     this.#job = facade.handle(this)
     this.#agent = agent
     this.#selector = selector
     this.#parameters = p
-    this.#scene = this.#progress = this.#rollback = this.#controller = this.#promise = void 0
+    this.#scene = this.#progress = this.#rollback = this.#controller = this.#promise = this.#expiration =
+      this.#expired = this.#admission = this.#parent = this.#children = void 0
+    this.#deadline = deadline
+    this.#detached = false
+    // a new gig inherits the trace of the gig that is showing on stage
+    this.#tracing = isTracing() ? traceJob(isShowing() ? showing().#tracing : void 0) : void 0
   }
   public get isInert() {
     return !this.status && !!this.#agent
@@ -163,6 +302,15 @@ export class Gig extends Destiny {
   public get isAnticipated() {
     return !!this.#rollback
   }
+  public get isMessage() {
+    return typeof this.#selector !== "function"
+  }
+  public get isPerforming() {
+    return !!this.#scene
+  }
+  public get isExpired() {
+    return !!this.#expired
+  }
   public get job() {
     return this.#job
   }
@@ -180,6 +328,10 @@ export class Gig extends Destiny {
   }
   public get promise() {
     return this.#promise ??= new Promise((resolve, reject) => {
+      if (!this.fate && !this.status) {
+        // force this inert job to start running (without a controller), which may seal its fate e.g., on overflow
+        this.#repost()
+      }
       const { fate } = this
       if (fate) {
         if (fate.blooper) {
@@ -188,30 +340,61 @@ export class Gig extends Destiny {
           resolve(fate.prompt)
         }
       } else {
-        if (!this.status) {
-          // force this inert job to start running (without a controller)
-          this.#repost()
-        }
         // fork background job to settle the promise when this job eventually completes
-        this.agent.settleHint(this.#job, resolve, reject).run()
+        facade.expose(this.agent.settleHint(this.#job, resolve, reject)).start()
       }
     })
   }
+  public deliver(admission: Future.Reveal<void>) {
+    this.#admission = admission
+    this.start()
+  }
+  public admitted() {
+    const admission = this.#admission
+    if (admission) {
+      this.#admission = void 0
+      admission({})
+    }
+  }
   public start() {
     // gig can be started if it is inert, otherwise starting is a noop
     if (this.isInert) {
       this.#repost()
     }
   }
+  public run() {
+    // like start, but a running gig is scoped to the gig that is showing on stage
+    if (this.isInert) {
+      this.#enterScope()
+      this.#repost()
+    }
+  }
+  public detach() {
+    this.#detached = true
+    this.#leaveScope()
+  }
   public stop(reason: string) {
     // gig can be stopped if it is not already done, otherwise stopping is a noop
     if (!this.fate) {
-      const rollback = this.#rollback
-      // complete gig with blooper
-      this.finish({ blooper: fx.erroneous(reason) })
-      // rollback if gig was waiting on signal from hint
-      if (rollback) {
-        rollback()
+      this.#abort(fx.erroneous(reason))
+    }
+  }
+  public expireAfter(deadline: number) {
+    if (!Number.isFinite(deadline) || deadline <= 0) {
+      throw new Error("deadline must be a positive number of milliseconds")
+    }
+    // deadline of gig can be changed if it is not already done, otherwise it is a noop
+    if (!this.fate) {
+      const expiration = this.#expiration
+      this.#deadline = deadline
+      this.#expiration = void 0
+      if (expiration) {
+        // restart countdown with new deadline
+        expiration()
+        this.#countdown()
+      } else if (this.status) {
+        // start countdown of running gig
+        this.#countdown()
       }
     }
   }
@@ -219,6 +402,12 @@ export class Gig extends Destiny {
     if (this !== showing()) {
       throw new Error("job must be showing when it takes the stage")
     }
+    const expired = this.#expired
+    if (expired) {
+      // supervise timeout incident while the expired gig is showing on stage
+      this.#manageBlooper(expired)
+      return
+    }
     // reset progress before the scene performance starts
     const progress = this.#progress
     this.#progress = void 0
@@ -226,8 +415,25 @@ export class Gig extends Destiny {
       if (!progress) {
         throw new Error("cannot proceed scene without progress")
       }
+      this.#trace(this.agent, this.selector, "resume")
     } else if (progress) {
       throw new Error("cannot have progress without a scene to proceed")
+    } else {
+      // role screens the job before its first performance
+      const { agent } = this, screened = agent.screen(this)
+      if (screened === "postpone") {
+        agent.stash(this)
+        return
+      } else if (screened) {
+        // complete rejected gig with blooper
+        this.#abort(screened)
+        negotiate(agent)
+        return
+      }
+      if (this.#tracing) {
+        this.#tracing.role = agent.role.constructor.name
+      }
+      this.#trace(agent, this.selector, "start")
     }
     // obtain existing scene to proceed with, or create new scene that starts first performance of this gig
     const scene = this.#scene ??= this.agent.createScene(this)
@@ -241,6 +447,7 @@ export class Gig extends Destiny {
         // update status of agent after this gig has finished 
         negotiate(agent)
       } else {
+        this.#trace(this.agent, this.selector, "yield")
         // either wait for asynchronous hint or quickly resume scene on stage when progress is immediate
         this.#rollback = future.commit(intermediate.value, signal => {
           this.#progress = signal
@@ -261,9 +468,20 @@ export class Gig extends Destiny {
         // suspend agent to prevent further processing in actor and its descendants
         agent.suspend()
         // let manager bury the agent in a separate job 
-        new Gig(agent.manager, buryMember, [agent]).#repost()
+        new Gig(agent.manager, buryMember, [agent, "killed"]).#repost()
+      } else if (problem instanceof Relay) {
+        const { agent } = this
+        // complete gig with relayed blooper, which is an incident of another actor
+        this.finish({ blooper: problem.blooper })
+        negotiate(agent)
+      } else if (problem === stashMarker && !progress && this.agent.canStash(this)) {
+        // discard scene, such that the job starts from scratch when it is unstashed
+        this.#scene = void 0
+        this.#trace(this.agent, this.selector, "yield")
+        this.agent.stash(this)
       } else {
-        this.#manageBlooper(fx.erroneous(problem))
+        this.#manageBlooper(fx.erroneous(problem === stashMarker ?
+          "job cannot be stashed after its scene has yielded or during initialization" : problem))
       }
     }
   }
@@ -281,27 +499,60 @@ class Escalation<A extends Actor> extends Error {
     return this.#incident
   }
 }
+// timeout blooper of an expired gig
+class Timeout extends Error {
+  readonly #deadline: number
+  constructor(deadline: number) {
+    super(`job deadline of ${deadline} ms expired`)
+    this.#deadline = deadline
+  }
+  public get deadline() {
+    return this.#deadline
+  }
+}
+// a scene throws a relay to fail its job with the blooper of another job
+class Relay {
+  readonly #blooper: Error
+  constructor(blooper: Error) {
+    this.#blooper = blooper
+  }
+  public get blooper() {
+    return this.#blooper
+  }
+}
 // hide gigs as opaque implementations behind job handles
 const facade = fx.facade<Theater.Job<unknown>, Gig>("std.theater:Job", Object.create(Object.prototype, {
   // wait for completion of destiny object
   autocue: { value() { return facade.expose(this).completion.autocue() } },
   // chain new promise to handle job completion
   then: { value(happy: any, sad: any) { return facade.expose(this).promise.then(happy, sad) } },
-  run: { value() { facade.expose(this).start() } },
+  run: { value() { facade.expose(this).run() } },
+  detach: { value() { facade.expose(this).detach(); return this } },
   quit: { value() { facade.expose(this).stop("quit job") } },
+  deadline: { value(ms: number) { facade.expose(this).expireAfter(ms); return this } },
 }))
 // an actor swallows poison pill on stage to perform death scene
 const poisonPill = Symbol("poison pill")
-// resume supervised member with fresh role
-function* resumeMember(member: Agent, casting: Theater.Casting<Actor, Actor, unknown[]>): Theater.Scene<void> {
-  member.resume(casting)
+// a scene throws stash marker to defer its job
+const stashMarker = Symbol("stash marker")
+// resume supervised member with fresh role after a delay
+function* resumeMember(
+  member: Agent, casting: Theater.Casting<Actor, Actor, unknown[]>, delay: number
+): Theater.Scene<void> {
+  if (delay > 0) {
+    yield future.timeout(delay)
+  }
+  // member may have been buried in the meantime
+  if (!member.fate) {
+    member.resume(casting)
+  }
 }
 // terminate team membership
-function* buryMember(member: Agent): Theater.Scene<void> {
-  member.bury()
+function* buryMember(member: Agent, cause: Theater.Cause): Theater.Scene<void> {
+  member.bury(cause)
 }
 // terminate team membership and escalate incident further in the context of the manager
 function* escalateIncident(member: Agent, incident: Theater.Incident<Actor>): Theater.Scene<void> {
-  member.bury()
+  member.bury("escalated")
   throw new Escalation(incident)
 }
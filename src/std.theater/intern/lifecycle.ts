@@ -64,7 +64,7 @@ export class ExclusiveStatus<T extends Destiny> implements Iterable<T> {
   public get first() {
     return this.#head
   }
-  public add(member: T) {
+  public add(member: T, first = false) {
     const old = member[exclusiveCurrent]
     if (old !== this) {
       // remove from old status
@@ -83,6 +83,10 @@ export class ExclusiveStatus<T extends Destiny> implements Iterable<T> {
         // become first member of this status
         this.#head = member[exclusivePrevious] = member[exclusiveNext] = member
       }
+      if (first) {
+        // member moves in front of the doubly-linked ring
+        this.#head = member
+      }
     }
   }
   public delete(member: T) {
@@ -0,0 +1,95 @@
+// --- TypeScript ---
+import type Fx from 'std.fx'
+import type Future from 'std.future'
+import type Theater from 'std.theater'
+type AnyMachineRole = Theater.MachineRole<Theater.Automaton>
+// a screening postpones or rejects a job, or it accepts the job when it is undefined
+export type Screening = "postpone" | Error | undefined
+// --- JavaScript ---
+import { future, fx } from "../extern.js"
+import { Role } from "./role.js"
+import { Play, screening } from "./scene.js"
+import { showing } from "./stage.js"
+
+export function MachineRole<A extends Theater.Automaton, S extends {} = {}>(): Fx.Mixin<Theater.MachineRole<A>, S> {
+  return AnyMachineRoleMixin as Fx.Mixin<Theater.MachineRole<A>, S>
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// scene selectors of machine roles are accepted in all states
+const universalSelectors = new Set<string | symbol>(["kill", "state", "transition"])
+const AnyMachineRoleMixin = fx.mixin<AnyMachineRole>(Super => {
+  class MachineRole extends Role<Theater.Automaton>()(Super) implements Theater.Script<Theater.Automaton> {
+    // lazy definition of machine
+    #machine?: Theater.Machine<this>
+    // name of current state
+    #state?: string
+    // observers wait for next transition
+    readonly #observers: Map<Future.Cue<Theater.Transition>, Future.Reveal<Theater.Transition>>
+    get #definition() {
+      if (!this.#machine) {
+        const machine = this.#machine = this.defineMachine()
+        if (!(machine.initial in machine.states)) {
+          throw new Error(`unknown initial state "${machine.initial}"`)
+        }
+      }
+      return this.#machine
+    }
+    constructor(...p: unknown[]) {
+      super(...p)
+      this.#machine = this.#state = void 0
+      this.#observers = new Map()
+    }
+    protected defineMachine(): Theater.Machine<this> {
+      throw new Error("machine role must define its states")
+    }
+    protected get currentState(): string {
+      return this.#state ??= this.#definition.initial
+    }
+    protected *transitionTo(next: string): Theater.Scene<void> {
+      if (this as unknown !== showing().agent.role) {
+        throw new Error("self must be playing on stage")
+      }
+      const { states } = this.#definition, previous = this.currentState
+      if (!(next in states)) {
+        throw new Error(`unknown state "${next}"`)
+      }
+      const { exit } = states[previous], { enter } = states[next]
+      if (exit) {
+        yield* exit.call(this, next)
+      }
+      this.#state = next
+      if (enter) {
+        yield* enter.call(this, previous)
+      }
+      // reveal transition to observers
+      const observers = [...this.#observers.values()], transition = { from: previous, to: next }
+      this.#observers.clear()
+      for (const reveal of observers) {
+        reveal({ prompt: transition })
+      }
+      // postponed jobs are screened again in the next state
+      this.unstashJobs()
+    }
+    public [screening](selector: string | symbol): Screening {
+      if (!universalSelectors.has(selector)) {
+        const { states } = this.#definition, current = this.currentState
+        const { accepts, otherwise = "reject" } = states[current]
+        if (!accepts.includes(selector)) {
+          return otherwise === "postpone" ? otherwise :
+            new Error(`"${String(selector)}" is not accepted in state "${current}"`)
+        }
+      }
+    }
+    @Play public *state(): Theater.Scene<string> {
+      return this.currentState
+    }
+    @Play public *transition(): Theater.Scene<Theater.Transition> {
+      const observers = this.#observers
+      const { prompt } = yield future.once<Theater.Transition>((reveal, cue) => { observers.set(cue, reveal) },
+        (_revealing, cue) => { observers.delete(cue) })
+      return prompt
+    }
+  }
+  return MachineRole as unknown as typeof Super & Fx.Constructor<AnyMachineRole>
+})
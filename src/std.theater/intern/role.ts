@@ -5,7 +5,7 @@ type Actor = Theater.Actor
 type AnyRole = Theater.Role<Actor>
 // --- JavaScript ---
 import { fx } from "../extern.js"
-import { Gig, swallowPoison } from "./gig.js"
+import { Gig, stashJob, swallowPoison } from "./gig.js"
 import { Play, doNothing } from "./scene.js"
 import { showing } from "./stage.js"
 
@@ -40,6 +40,20 @@ const AnyRoleMixin = fx.mixin<AnyRole>(Super => {
       }
       return agent.cast(casting).actor
     }
+    protected stashJob(this: AnyRole): never {
+      const { agent } = showing()
+      if (this !== agent.role) {
+        throw new Error("self must be playing on stage")
+      }
+      stashJob()
+    }
+    protected unstashJobs(this: AnyRole): void {
+      const { agent } = showing()
+      if (this !== agent.role) {
+        throw new Error("self must be playing on stage")
+      }
+      agent.unstash()
+    }
     @Play public *kill(): Theater.Scene<boolean> {
       swallowPoison()
     }
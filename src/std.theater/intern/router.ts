@@ -0,0 +1,131 @@
+// --- TypeScript ---
+import type Future from 'std.future'
+import type Theater from 'std.theater'
+type Actor = Theater.Actor
+type AnyRouting = Theater.Routing<Actor>
+// --- JavaScript ---
+import { busyness, isDead } from "./agent.js"
+import { relayBlooper, when } from "./gig.js"
+import { Role } from "./role.js"
+import { Play } from "./scene.js"
+
+export function Router<A extends Actor>(): Theater.RoleClass<Theater.Router<A>, [Theater.Routing<A>]> {
+  return RouterRole as unknown as Theater.RoleClass<Theater.Router<A>, [Theater.Routing<A>]>
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// number of points per routee on the hash ring
+const replicas = 16
+class RouterRole extends Role<Theater.Router<Actor>>()(Object) implements Theater.Script<Theater.Pool> {
+  // routing settings of pool
+  readonly #routing: AnyRouting
+  // routees in order of creation
+  readonly #routees: Actor[]
+  // stable serial numbers of routees determine their points on the hash ring
+  readonly #serials: Map<Actor, number>
+  // serial number of next routee
+  #serial: number
+  // index of next routee in round-robin routing
+  #turn: number
+  // sorted hash ring with points of routees, which is rebuilt when the pool changes
+  #ring?: [number, Actor][]
+  // select routee for parameters of a job
+  #select(p: unknown[]): Actor {
+    const routees = this.#routees
+    // routees that have died are removed from the pool
+    for (let i = routees.length - 1; i >= 0; --i) {
+      if (isDead(routees[i])) {
+        this.#serials.delete(routees[i])
+        routees.splice(i, 1)
+        this.#ring = void 0
+      }
+    }
+    if (routees.length === 0) {
+      throw new Error("router has no routees")
+    }
+    const { strategy = "round-robin", key = 0 } = this.#routing
+    switch (strategy) {
+      case "round-robin":
+        return routees[this.#turn++ % routees.length]
+      case "least-busy":
+        return routees.reduce((least, routee) => busyness(routee) < busyness(least) ? routee : least)
+      case "consistent-hash":
+        const ring = this.#ring ??= createRing(routees, this.#serials), hash = hashText(String(p[key]))
+        // find first point on the ring at or after the hash, or wrap around to the first point
+        let low = 0, high = ring.length
+        while (low < high) {
+          const middle = (low + high) >>> 1
+          if (ring[middle][0] < hash) {
+            low = middle + 1
+          } else {
+            high = middle
+          }
+        }
+        return ring[low % ring.length][1]
+      default:
+        throw new Error(`unknown routing strategy "${strategy}"`)
+    }
+  }
+  protected *initializeRole(): Theater.Scene<void> {
+    yield* this.resize(this.#routing.size)
+  }
+  protected *improviseScene<T, P extends unknown[]>(selector: string | symbol, p: P): Theater.Scene<T> {
+    // forward job to selected routee
+    const routee = this.#select(p) as unknown as { [selector: string | symbol]: (...p: P) => Theater.Job<T> }
+    const { blooper, prompt }: Future.Signal<T> = yield routee[selector](...p)
+    if (blooper) {
+      // failure of routee is its own incident, which is passed back to the sender instead of escalating in the router
+      relayBlooper(blooper)
+    }
+    return prompt!
+  }
+  constructor(routing: AnyRouting) {
+    super()
+    this.#routing = routing
+    this.#routees = []
+    this.#serials = new Map()
+    this.#serial = this.#turn = 0
+    this.#ring = void 0
+  }
+  @Play public *resize(size: number): Theater.Scene<void> {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error("pool size must be a positive integer")
+    }
+    const routees = this.#routees, { casting } = this.#routing
+    this.#ring = void 0
+    while (routees.length < size) {
+      const routee = this.castChild(casting)
+      routees.push(routee)
+      this.#serials.set(routee, this.#serial++)
+    }
+    // kill surplus routees after they have left the pool
+    for (const routee of routees.splice(size)) {
+      this.#serials.delete(routee)
+      yield* when(routee.kill())
+    }
+  }
+  @Play public *size(): Theater.Scene<number> {
+    return this.#routees.length
+  }
+}
+// create sorted hash ring with points of routees
+function createRing(routees: Actor[], serials: Map<Actor, number>): [number, Actor][] {
+  const ring: [number, Actor][] = []
+  for (const routee of routees) {
+    for (let replica = 0; replica < replicas; ++replica) {
+      // points depend on serial number of routee, such that pool changes only move keys of added or removed routees
+      ring.push([hashText(`${serials.get(routee)}:${replica}`), routee])
+    }
+  }
+  return ring.sort(([a], [b]) => a - b)
+}
+// 32-bit FNV-1a hash of text, with a final avalanche to spread similar texts over the ring
+function hashText(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; ++i) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193)
+  }
+  hash = Math.imul(hash ^ hash >>> 16, 0x85ebca6b)
+  hash = Math.imul(hash ^ hash >>> 13, 0xc2b2ae35)
+  return (hash ^ hash >>> 16) >>> 0
+}
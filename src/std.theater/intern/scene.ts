@@ -23,5 +23,8 @@ export function Play(prototype: object, key: PropertyKey, descriptor: PropertyDe
 
 export function* doNothing() { }
 
+// a role may screen selectors of jobs before it performs scenes
+export const screening = Symbol("scene screening")
+
 // ----------------------------------------------------------------------------------------------------------------- //
 const sceneMarker = Symbol("scene method marker"), scenicMethod = Reflect.getPrototypeOf(function* () { })!
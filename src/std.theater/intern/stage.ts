@@ -1,12 +1,25 @@
 // --- TypeScript ---
+import type Theater from 'std.theater'
 import type { Agent } from "./agent.ts"
 import type { Gig } from "./gig.ts"
 // immediate interrupts are handled synchronously
 // fast interrupts are handled in a microtask
 // normal interrupts are handled in a macrotask
 type Priority = "immediate" | "fast" | "normal"
+// statistics of an interrupt occurence
+interface Sample {
+  readonly latency: number
+  readonly excess: number
+  readonly gigs: number
+}
+// statistics of stage performances with a scene selector
+interface Performances {
+  count: number
+  total: number
+  longest: number
+}
 // --- JavaScript ---
-import { kernel, loop } from "../extern.js"
+import { kernel, loop, settings } from "../extern.js"
 import { ExclusiveStatus } from "./lifecycle.js"
 
 export function isShowing() {
@@ -20,7 +33,7 @@ export function negotiate(agent: Agent) {
   if (agent.isSuspended) {
     suspended.add(agent)
   } else if (agent.workload.size > 0) {
-    ready.add(agent)
+    ready[agent.priority].add(agent)
     if (!handling && !willEntertain) {
       // give stage to ready agent in microtask (i.e. in current cycle of the event loop)
       willEntertain = true
@@ -46,6 +59,20 @@ export function performSolo(gig: Gig) {
   cause("immediate", loop.over([gig]))
 }
 
+export function metrics(): Theater.Metrics {
+  const recent = samples.slice(0, Math.min(sampled, sampleWindow))
+  const hogs = [...performances].sort(([, a], [, b]) => b.longest - a.longest).slice(0, hogCount)
+  return {
+    budgets: { ...budgets },
+    interrupts: recent.length,
+    latency: summarize(recent.map(({ latency }) => latency)),
+    overruns: recent.filter(({ excess }) => excess > 0).length,
+    excess: summarize(recent.map(({ excess }) => excess)),
+    gigs: summarize(recent.map(({ gigs }) => gigs)),
+    hogs: hogs.map(([selector, { count, total, longest }]) => ({ selector, performances: count, total, longest })),
+  }
+}
+
 // ----------------------------------------------------------------------------------------------------------------- //
 // one active gig on stage when curtain is open
 const active = new ExclusiveStatus<Gig>("active")
@@ -53,8 +80,17 @@ const active = new ExclusiveStatus<Gig>("active")
 const busy = new ExclusiveStatus<Agent>("busy")
 // suspended agents cannot work on stage
 const suspended = new ExclusiveStatus<Agent>("suspended")
-// ready agents want to work on stage
-const ready = new ExclusiveStatus<Agent>("ready")
+// ready agents want to work on stage, with separate statuses for priority classes
+const ready: { [priority in Theater.PriorityClass]: ExclusiveStatus<Agent> } = {
+  interactive: new ExclusiveStatus("ready"),
+  normal: new ExclusiveStatus("ready"),
+  background: new ExclusiveStatus("ready"),
+}
+// priority classes in descending order
+const priorityClasses: Theater.PriorityClass[] = ["interactive", "normal", "background"]
+// a ready priority class ages when the stage passes over it, until it is served when it exceeds the aging limit
+const agingLimits: { [priority in Theater.PriorityClass]: number } = { interactive: Infinity, normal: 4, background: 8 }
+const aging: { [priority in Theater.PriorityClass]: number } = { interactive: 0, normal: 0, background: 0 }
 // waiting agents have nothing to do, but they anticipate to work in the future
 const waiting = new ExclusiveStatus<Agent>("waiting")
 // idle agents have nothing to do and they also have nothing planned
@@ -69,15 +105,19 @@ function handleInterrupt(interrupt: Interrupt, playlist: IterableIterator<Gig>)
     throw new Error("cannot nest interrupt occurences")
   }
   handling = interrupt
+  let gigs = 0
   try {
     // open curtain and process playlist
     for (const gig of playlist) {
       if (active.size || busy.size) {
         throw new Error("stage must be empty when taking stage")
       }
+      const { selector } = gig, entry = kernel.now()
       active.add(gig)
       busy.add(gig.agent)
       gig.takeStage()
+      ++gigs
+      measurePerformance(typeof selector === "function" ? selector.name : selector, kernel.now() - entry)
       // break when budget has been exhausted
       if (interrupt.budget === 0) {
         if (active.size || busy.size) {
@@ -92,29 +132,69 @@ function handleInterrupt(interrupt: Interrupt, playlist: IterableIterator<Gig>)
     handling = void 0
   }
   // this code will only execute on a clean exit
-  if (ready.size > 0 && !willEntertain) {
+  samples[sampled++ % sampleWindow] = { latency: interrupt.latency, excess: interrupt.excess, gigs }
+  if (priorityClasses.some(priority => ready[priority].size > 0) && !willEntertain) {
     // give stage to ready agent in macrotask (i.e. in a future cycle of the event loop)
     willEntertain = true
     cause("normal", entertainment())
   }
 }
 // budgets (in ms) for an interrupt occurence with a certain priority
-const immediateBudget = 4, fastBudget = 6, normalBudget = 10
+const budgets: Required<Theater.Budgets> = { immediate: 4, fast: 6, normal: 10, ...settings.budgets }
+for (const [priority, budget] of Object.entries(budgets)) {
+  if (!Number.isFinite(budget) || budget <= 0) {
+    throw new Error(`${priority} budget must be a positive number of milliseconds`)
+  }
+}
+// number of interrupt samples in rolling statistics, and number of scene selectors that hog the stage
+const sampleWindow = positiveSetting("window", settings.window ?? 100)
+const hogCount = positiveSetting("hogs", settings.hogs ?? 10)
+// ring buffer with interrupt samples
+const samples: Sample[] = []
+// total number of sampled interrupts
+let sampled = 0
+// statistics of stage performances by scene selector
+const performances = new Map<string | symbol, Performances>()
+// check setting that counts something
+function positiveSetting(name: string, value: number) {
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new Error(`${name} setting must be a positive integer`)
+  }
+  return value
+}
+// add duration of stage performance to statistics of scene selector
+function measurePerformance(selector: string | symbol, duration: number) {
+  const statistics = performances.get(selector)
+  if (statistics) {
+    ++statistics.count
+    statistics.total += duration
+    statistics.longest = Math.max(statistics.longest, duration)
+  } else {
+    performances.set(selector, { count: 1, total: duration, longest: duration })
+  }
+}
+// compute mean and maximum of values
+function summarize(values: number[]): Theater.Statistic {
+  return values.length === 0 ? { mean: 0, maximum: 0 } : {
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    maximum: Math.max(...values),
+  }
+}
 // cause an interrupt and handle it accordingly
 function cause(priority: Priority, playlist: IterableIterator<Gig>) {
-  const start = performance.now()
+  const start = kernel.now()
   switch (priority) {
     case "immediate":
       // execute synchronous handler
-      return handleInterrupt(new Interrupt("immediate", start, start, immediateBudget), playlist)
+      return handleInterrupt(new Interrupt("immediate", start, start, budgets.immediate), playlist)
     case "fast":
       const microtask = () =>
-        handleInterrupt(new Interrupt("fast", start, performance.now(), fastBudget), playlist)
+        handleInterrupt(new Interrupt("fast", start, kernel.now(), budgets.fast), playlist)
       // schedule microtask handler
-      return queueMicrotask(microtask)
+      return kernel.queueMicrotask(microtask)
     default:
       const macrotask = () =>
-        handleInterrupt(new Interrupt("normal", start, performance.now(), normalBudget), playlist)
+        handleInterrupt(new Interrupt("normal", start, kernel.now(), budgets.normal), playlist)
       // schedule macrotask handler
       return kernel.queueMacrotask(macrotask)
   }
@@ -122,7 +202,7 @@ function cause(priority: Priority, playlist: IterableIterator<Gig>) {
 // show regular entertainment on stage, i.e. with gigs from ready agents
 function* entertainment() {
   willEntertain = false
-  for (let agent: Agent | undefined; (agent = ready.first);) {
+  for (let agent: Agent | undefined; (agent = nextReady());) {
     const { first } = agent.workload
     if (!first) {
       throw new Error("ready actor with empty workload")
@@ -130,6 +210,16 @@ function* entertainment() {
     yield first
   }
 }
+// select ready agent of highest priority class, unless a lower priority class has aged too much
+function nextReady(): Agent | undefined {
+  const candidates = priorityClasses.filter(priority => ready[priority].size > 0)
+  const chosen = candidates.find(priority => aging[priority] >= agingLimits[priority]) ?? candidates[0]
+  for (const priority of priorityClasses) {
+    // chosen and empty priority classes start to age from scratch
+    aging[priority] = priority === chosen || !candidates.includes(priority) ? 0 : aging[priority] + 1
+  }
+  return chosen && ready[chosen].first
+}
 // interrupt occurence with fixed time budget
 class Interrupt {
   #priority: Priority
@@ -145,6 +235,6 @@ class Interrupt {
   public get priority() { return this.#priority }
   public get start() { return this.#start }
   public get latency() { return this.#entry - this.#start }
-  public get budget() { return Math.max(0, this.#entry + this.#budget - performance.now()) }
-  public get excess() { return Math.max(0, performance.now() - this.#budget - this.#entry) }
+  public get budget() { return Math.max(0, this.#entry + this.#budget - kernel.now()) }
+  public get excess() { return Math.max(0, kernel.now() - this.#budget - this.#entry) }
 }
@@ -0,0 +1,74 @@
+// --- TypeScript ---
+import type Theater from 'std.theater'
+// trace info of a job
+export interface Tracing {
+  readonly trace: number
+  readonly job: number
+  readonly parent?: number
+  // name of role class, which is known when the job starts
+  role: string
+}
+// --- JavaScript ---
+import { kernel } from "../extern.js"
+
+export function startTracing(capacity = 10000) {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new Error("trace capacity must be a positive integer")
+  }
+  buffer = []
+  size = capacity
+  recorded = 0
+  tracing = true
+}
+
+export function stopTracing() {
+  tracing = false
+}
+
+export function traceEvents(): Theater.TraceEvent[] {
+  // oldest event is overwritten when the ring buffer is full
+  const offset = recorded > size ? recorded % size : 0
+  return [...buffer.slice(offset), ...buffer.slice(0, offset)]
+}
+
+export function isTracing() {
+  return tracing
+}
+
+// allocate trace and job ids of new job, which inherits trace id of its parent
+export function traceJob(parent?: Tracing): Tracing {
+  return { trace: parent?.trace ?? nextTrace++, job: nextJob++, parent: parent?.job, role: "" }
+}
+
+export function traceActor(actor: Theater.Actor): number {
+  let id = actors.get(actor)
+  if (id === void 0) {
+    actors.set(actor, id = nextActor++)
+  }
+  return id
+}
+
+export function recordEvent(
+  { trace, job, parent, role }: Tracing, actor: number, selector: string, phase: Theater.TracePhase, failed?: boolean
+) {
+  if (tracing) {
+    const event: Theater.TraceEvent = { trace, job, actor, role, selector, phase, time: kernel.now() }
+    buffer[recorded++ % size] = {
+      ...event,
+      ...parent === void 0 ? {} : { parent },
+      ...failed === void 0 ? {} : { failed },
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// true if new events are recorded
+let tracing = false
+// ring buffer with trace events
+let buffer: Theater.TraceEvent[] = []
+// capacity of ring buffer, and total number of recorded events since tracing started
+let size = 0, recorded = 0
+// next ids of traces, jobs and actors
+let nextTrace = 1, nextJob = 1, nextActor = 1
+// traced actors have an id
+const actors = new WeakMap<Theater.Actor, number>()
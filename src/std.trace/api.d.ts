@@ -0,0 +1,80 @@
+declare module 'std.trace' {
+  import type Theater from 'std.theater'
+  export default Trace
+  /**
+   * The trace service exports the trace events of theater jobs.
+   */
+  interface Trace {
+    /**
+     * Convert trace events to the Chrome trace-event format.
+     * Actors are threads, stage performances are complete events and the lifetimes of jobs are async events.
+     * @param events Trace events, by default the events in the ring buffer of the theater
+     * @returns A Chrome trace
+     */
+    chrome(events?: readonly Theater.TraceEvent[]): Trace.Chrome
+    /**
+     * Write a Chrome trace-event JSON file.
+     * @param path Path of file to write
+     * @param events Trace events, by default the events in the ring buffer of the theater
+     * @returns A promise that resolves when the file has been written
+     * @throws When the platform does not support a file system
+     */
+    writeChrome(path: string, events?: readonly Theater.TraceEvent[]): Promise<void>
+  }
+  namespace Trace {
+    /**
+     * A trace in the JSON object format of Chrome trace events.
+     */
+    interface Chrome {
+      /**
+       * Trace events in chronological order.
+       */
+      readonly traceEvents: ChromeEvent[]
+      /**
+       * Unit of time in trace viewers.
+       */
+      readonly displayTimeUnit: "ms"
+    }
+    /**
+     * A Chrome trace event.
+     */
+    interface ChromeEvent {
+      /**
+       * Name of event.
+       */
+      readonly name: string
+      /**
+       * Category of event.
+       */
+      readonly cat?: string
+      /**
+       * Event type e.g., "X" for a complete event or "b" and "e" for the begin and end of an async event.
+       */
+      readonly ph: string
+      /**
+       * Timestamp in microseconds.
+       */
+      readonly ts: number
+      /**
+       * Duration in microseconds of a complete event.
+       */
+      readonly dur?: number
+      /**
+       * Process id.
+       */
+      readonly pid: number
+      /**
+       * Thread id.
+       */
+      readonly tid: number
+      /**
+       * Id of an async event.
+       */
+      readonly id?: number
+      /**
+       * Arguments of event.
+       */
+      readonly args?: { readonly [key: string]: unknown }
+    }
+  }
+}
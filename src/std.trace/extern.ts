@@ -0,0 +1,9 @@
+// --- TypeScript ---
+import type Theater from 'std.theater'
+import type Trace from 'std.trace'
+// --- JavaScript ---
+export default async ({ use }: Contract<Trace>): Promise<Trace> => {
+  [theater] = await use('std.theater')
+  return import("./intern.js")
+}
+export let theater: Theater
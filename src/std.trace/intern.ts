@@ -0,0 +1,3 @@
+// --- JavaScript ---
+export { chrome } from "./intern/chrome.js"
+export { writeChrome } from "./intern/chrome.js"
@@ -0,0 +1,55 @@
+// --- TypeScript ---
+import type Theater from 'std.theater'
+import type Trace from 'std.trace'
+// --- JavaScript ---
+import { theater } from "../extern.js"
+
+export function chrome(events: readonly Theater.TraceEvent[] = theater.traceEvents()): Trace.Chrome {
+  // actors with a named thread
+  const traceEvents: Trace.ChromeEvent[] = [], actors = new Set<number>()
+  // time of start or resume of jobs that are performing on stage
+  const entries = new Map<number, number>()
+  // jobs whose async event has begun
+  const begun = new Set<number>()
+  for (const { trace, job, parent, actor, role, selector, phase, time, failed } of events) {
+    const name = role ? `${role}.${selector}` : selector, ts = time * 1000, args = { trace, job, parent }
+    if (role && !actors.has(actor)) {
+      actors.add(actor)
+      // name thread of actor after its role
+      traceEvents.push({ name: "thread_name", ph: "M", ts: 0, pid, tid: actor, args: { name: `${role} #${actor}` } })
+    }
+    switch (phase) {
+      case "start":
+        if (!begun.has(job)) {
+          begun.add(job)
+          traceEvents.push({ name, cat: "job", ph: "b", ts, pid, tid: actor, id: job, args })
+        }
+      // fall through, because a started job is performing on stage
+      case "resume":
+        entries.set(job, ts)
+        break
+      default: {
+        const entry = entries.get(job)
+        if (entry !== void 0) {
+          // stage performance ends when the job yields or completes
+          entries.delete(job)
+          traceEvents.push({ name, cat: "stage", ph: "X", ts: entry, dur: ts - entry, pid, tid: actor, args })
+        }
+        if (phase === "complete" && begun.delete(job)) {
+          traceEvents.push({ name, cat: "job", ph: "e", ts, pid, tid: actor, id: job, args: { ...args, failed } })
+        }
+      }
+    }
+  }
+  // complete events and thread names are pushed after events with a later timestamp (stable sort keeps ties in order)
+  traceEvents.sort((a, b) => a.ts - b.ts)
+  return { traceEvents, displayTimeUnit: "ms" }
+}
+
+export async function writeChrome(_path: string, _events?: readonly Theater.TraceEvent[]): Promise<void> {
+  throw new Error("chrome trace files are not supported on this platform")
+}
+
+// ----------------------------------------------------------------------------------------------------------------- //
+// all events belong to the same process
+const pid = 1
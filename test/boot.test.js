@@ -0,0 +1,144 @@
+import { before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import startSystem from "../index.js"
+
+describe("boot loader", () => {
+  // bindings of test services in the fixtures directory
+  const bindingsId = name => new URL(`./fixtures/${name}.js`, import.meta.url).href
+  let loader
+  // provider state of a service in a diagnosis of the loader
+  const stateOf = name => [...loader.diagnose().services].find(service => service.name === name)?.state
+  before(async () => { loader = (await startSystem([])).loader() })
+  test("implementation is checked against specification with build metadata", () => {
+    const id = bindingsId("versions")
+    loader.push({
+      id,
+      service: { "test.service": { specification: true, implementation: true } },
+      versions: { "test.service": { specification: "1.2.0+build.7", implementation: "1.3.0" } }
+    })
+    loader.pop(id)
+    assert.throws(() => loader.push({
+      id,
+      service: { "test.service": { specification: true, implementation: true } },
+      versions: { "test.service": { specification: "1.2.0+build.7", implementation: "2.0.0" } }
+    }), { message: /^incompatible implementation 'test.service@2.0.0'/ })
+  })
+  test("extern modules are ordered by service name and fetched after import", async () => {
+    const id = bindingsId("preloading")
+    loader.push({
+      id,
+      service: { "test.echo": { implementation: true }, "test.alpha": { implementation: true } },
+      preloading: { "test.echo": "eager", "test.alpha": "lazy" }
+    })
+    const externs = () => [...loader.queryExterns()].filter(({ bundle }) => bundle === id)
+    assert.deepEqual(externs().map(({ serviceName }) => serviceName), ["test.alpha", "test.echo"])
+    // an eager import has started, but the module has not been fetched yet
+    assert.deepEqual(externs().map(({ isFetched }) => isFetched), [false, false])
+    assert.equal((await loader.provide("test.echo")).echo(42), 42)
+    assert.deepEqual(externs().map(({ isFetched }) => isFetched), [false, true])
+  })
+  test("configuration settings are frozen copies of config modules", async () => {
+    const id = bindingsId("configuration")
+    loader.push({ id, service: { "test.settings": { implementation: true, configuration: true } } })
+    const provider = await loader.provide("test.settings"), settings = provider.settings()
+    const { configuration } = await import("./fixtures/test.settings/config.js")
+    assert.deepEqual(settings, configuration)
+    assert.ok(Object.isFrozen(settings) && Object.isFrozen(settings.names))
+    assert.ok(!Object.isFrozen(configuration) && !Object.isFrozen(configuration.names))
+    assert.equal(provider.again(), settings)
+  })
+  test("reload imports extern module again and provides dependents again", async () => {
+    const id = bindingsId("reloading")
+    loader.push({
+      id,
+      service: {
+        "test.counter": { implementation: true, reloadable: true }, "test.dependent": { implementation: true }
+      }
+    })
+    const dependent = await loader.provide("test.dependent"), instance = dependent.counter().instance()
+    const counter = await loader.reload("test.counter")
+    assert.notEqual(counter.instance(), instance)
+    const reprovided = await loader.provide("test.dependent")
+    assert.notEqual(reprovided, dependent)
+    assert.equal(reprovided.counter(), counter)
+  })
+  test("reload is refused for service without reloadable binding", async () => {
+    const id = bindingsId("unreloadable")
+    loader.push({ id, service: { "test.guest": { implementation: true } } })
+    await assert.rejects(loader.reload("test.guest"), {
+      message: "cannot reload service 'test.guest' without reloadable binding"
+    })
+    loader.pop(id)
+  })
+  test("diagnosis renders provider states and dependencies", async () => {
+    const id = bindingsId("diagnosis")
+    loader.push({
+      id,
+      service: {
+        "test.top": { implementation: true },
+        "test.middle": { implementation: true },
+        "test.bottom": { implementation: true }
+      }
+    })
+    const graph = () => {
+      const json = JSON.parse(loader.diagnose().render("json"))
+      return { top: json["test.top"], middle: json["test.middle"], bottom: json["test.bottom"] }
+    }
+    assert.deepEqual(graph().top, { state: "uninstantiated", direct: [], indirect: [] })
+    await loader.provide("test.top")
+    assert.deepEqual(graph(), {
+      top: { state: "instantiated", direct: ["test.middle"], indirect: ["test.bottom"] },
+      middle: { state: "instantiated", direct: ["test.bottom"], indirect: [] },
+      bottom: { state: "instantiated", direct: [], indirect: [] },
+    })
+    const dot = loader.diagnose().render("dot").split("\n")
+    assert.equal(dot[0], "digraph services {")
+    assert.equal(dot.at(-1), "}")
+    assert.ok(dot.includes('  "test.top" [style=solid];'))
+    assert.ok(dot.includes('  "test.top" -> "test.middle";'))
+    assert.ok(dot.includes('  "test.middle" -> "test.bottom";'))
+    assert.ok(!dot.includes('  "test.top" -> "test.bottom";'))
+    assert.throws(() => loader.diagnose().render("xml"), {
+      message: 'cannot render diagnosis in unknown format "xml"'
+    })
+  })
+  test("expired deadline fails instantiation with use chain", async () => {
+    const id = bindingsId("deadlines")
+    loader.push({
+      id,
+      service: { "test.impatient": { implementation: true }, "test.slow": { implementation: true } },
+      deadlines: { "test.slow": 10 }
+    })
+    await assert.rejects(loader.provide("test.impatient"), problem => {
+      assert.equal(problem.message, "cannot instantiate service 'test.slow' in use chain 'test.impatient'->'test.slow'")
+      assert.equal(problem.cause.message, "instantiation deadline of 10 ms expired")
+      return true
+    })
+    assert.equal(stateOf("test.slow"), "failed")
+  })
+  test("failed instantiation is retried when service is provided again", async () => {
+    const id = bindingsId("retries")
+    loader.push({ id, service: { "test.flaky": { implementation: true } } })
+    await assert.rejects(loader.provide("test.flaky"), problem => problem.cause.message === "flaky failure")
+    assert.equal(stateOf("test.flaky"), "failed")
+    assert.equal((await loader.provide("test.flaky")).attempts(), 2)
+    assert.equal(stateOf("test.flaky"), "instantiated")
+  })
+  test("popped layer falls back to lower layer and is refused while its providers are in use", async () => {
+    const lower = bindingsId("layers"), upper = bindingsId("upper/layers"), other = bindingsId("others")
+    const service = { "test.layered": { implementation: true } }
+    loader.push({ id: lower, service })
+    loader.push({ id: upper, service })
+    loader.pop(upper)
+    assert.equal((await loader.provide("test.layered")).layer(), "lower")
+    assert.throws(() => loader.push({ id: upper, service }), {
+      message: `cannot refine instantiated providers of 'test.layered' in bundle ${upper}`
+    })
+    loader.push({ id: other, service: { "test.guest": { implementation: true } } })
+    assert.throws(() => loader.pop(lower), { message: `cannot pop bindings "${lower}" below top of stack` })
+    loader.pop(other)
+    assert.throws(() => loader.pop(lower), {
+      message: `cannot pop bindings "${lower}" while providers of 'test.layered' are in use`
+    })
+  })
+})
@@ -0,0 +1 @@
+export const configuration = { window: 0 }
@@ -0,0 +1,5 @@
+// every import of this module creates another instance
+const instance = {}
+export default async function () {
+  return { instance() { return instance } }
+}
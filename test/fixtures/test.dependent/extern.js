@@ -0,0 +1,4 @@
+export default async function ({ use }) {
+  const [counter] = await use("test.counter")
+  return { counter() { return counter } }
+}
@@ -0,0 +1,3 @@
+export default async function () {
+  return { echo(value) { return value } }
+}
@@ -0,0 +1,8 @@
+// the first instantiation fails
+let attempts = 0
+export default async function () {
+  if (++attempts === 1) {
+    throw new Error("flaky failure")
+  }
+  return { attempts() { return attempts } }
+}
@@ -0,0 +1 @@
+export const configuration = { timeout: 10, names: ["a", "b"] }
@@ -0,0 +1,8 @@
+export default async function ({ configuration }) {
+  const type = "{timeout:int32,names:[string]}"
+  const settings = await configuration(type), again = await configuration(type)
+  return {
+    settings() { return settings },
+    again() { return again },
+  }
+}
@@ -0,0 +1,3 @@
+export default function () {
+  return new Promise(resolve => setTimeout(resolve, 200, {}))
+}
@@ -0,0 +1,4 @@
+export default async function ({ use }) {
+  await use("test.middle")
+  return {}
+}
@@ -0,0 +1,40 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { mockContract } from "../mock.js"
+import dependentContractor from "./fixtures/test.dependent/extern.js"
+import settingsContractor from "./fixtures/test.settings/extern.js"
+
+describe("mock contract", () => {
+  test("contractor uses fakes instead of service providers", async () => {
+    const counter = { instance() { return "fake" } }
+    const contract = mockContract("test.dependent", { fakes: { "test.counter": counter } })
+    const provider = await dependentContractor(contract)
+    assert.equal(provider.counter(), counter)
+    assert.deepEqual(contract.requests, ["test.counter"])
+    await assert.rejects(mockContract("test.dependent").use("test.counter@^1.0.0"), {
+      message: "cannot use unfaked services 'test.counter'"
+    })
+  })
+  test("contractor refines former contractors once", async () => {
+    let instantiations = 0
+    const lowest = async () => ({ layer: "lowest", instantiations: ++instantiations })
+    const lower = async ({ former, use }) => {
+      await use("test.echo")
+      return { ...await former(), layer: "lower" }
+    }
+    const upper = async ({ former }) => {
+      const [first, second] = await Promise.all([former(), former()])
+      assert.equal(first, second)
+      return { ...first, layer: "upper" }
+    }
+    const contract = mockContract("test.layered", { fakes: { "test.echo": {} }, formers: [lower, lowest] })
+    assert.deepEqual(await upper(contract), { layer: "upper", instantiations: 1 })
+    assert.deepEqual(contract.requests, ["test.echo"])
+    assert.equal(mockContract("test.layered").former, void 0)
+  })
+  test("configuration settings are passed unchecked", async () => {
+    const configuration = { timeout: "not a number" }
+    const provider = await settingsContractor(mockContract("test.settings", { configuration }))
+    assert.equal(provider.settings(), configuration)
+  })
+})
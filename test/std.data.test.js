@@ -0,0 +1,61 @@
+import { before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import startSystem from "../index.js"
+
+describe("std.data", () => {
+  let data, space
+  before(async () => {
+    data = await (await startSystem([])).loader().provide("std.data")
+    space = data.inflate(await data.loadTypeDefinitions("std.data"))
+  })
+  test("composite types are unique across spaces", () => {
+    const expression = "{a:[int32],b:(string,{c:<number>})}"
+    const type = data.inflate({}).evaluate(expression)
+    assert.equal(data.inflate({}).evaluate(expression), type)
+    assert.ok(type.includes(data.inflate({}).import(expression, { a: [1], b: ["x", { c: { d: 0.5 } }] })))
+  })
+  test("nested composite types remain usable after evaluation of their members", () => {
+    const space = data.inflate({})
+    const inner = space.evaluate("{c:int32}"), outer = space.evaluate("{b:{c:int32}}")
+    assert.ok(outer.includes(space.import("{b:{c:int32}}", { b: { c: 1 } })))
+    assert.ok(inner.includes(space.import("{c:int32}", { c: 2 })))
+    assert.ok(data.inflate({}).evaluate("[{c:int32}]").includes(space.import("[{c:int32}]", [{ c: 3 }])))
+  })
+  test("recursive types remain usable after evaluation in another space", async () => {
+    const definitions = await data.loadTypeDefinitions("std.data"), expression = "Data.BinTree(int32)"
+    const first = data.inflate(definitions), tree = first.import(expression, { value: 1, left: { value: 2 } })
+    const second = data.inflate(definitions)
+    assert.ok(second.evaluate(expression).includes(second.import(expression, { value: 3 })))
+    assert.ok(first.evaluate(expression).includes(tree))
+  })
+  test("import of union reports error of nearest alternative", () => {
+    assert.throws(() => space.import("{a:string}|{b:{c:int32}}", { b: { c: "x" } }), {
+      message: "cannot import: expected one of 2 alternatives but found an object " +
+        "(nearest: cannot import at b.c: expected an int32 number but found string \"x\")"
+    })
+  })
+  test("validation reports nested paths with positions starting at 1", () => {
+    const loose = "{orders:[{customer:{name:*}}]}", strict = "{orders:[{customer:{name:string}}]}"
+    const value = space.import(loose, { orders: [{ customer: { name: "a" } }, { customer: { name: 3 } }] })
+    assert.deepEqual(space.validate(strict, value), [
+      { path: "orders[2].customer.name", expected: "string", actual: 3 }
+    ])
+    assert.deepEqual(space.validate(loose, value), [])
+  })
+  test("validation reports expected type and actual value", () => {
+    const value = space.import("<*>", { a: 1, b: "x", c: true })
+    assert.deepEqual(space.validate("<int32>", value), [
+      { path: '["b"]', expected: "int32", actual: "x" },
+      { path: '["c"]', expected: "int32", actual: true }
+    ])
+    assert.deepEqual(space.validate("(int32,string)", 42), [{ path: "", expected: "(int32,string)", actual: 42 }])
+  })
+  test("validation descends into the only union alternative with the shape of the value", () => {
+    const value = space.import("[*]", ["a", 2])
+    assert.deepEqual(space.validate("[string]|{a:int32}", value), [{ path: "[2]", expected: "string", actual: 2 }])
+    assert.deepEqual(space.validate("[string]|[int32]", value), [
+      { path: "", expected: "[int32]|[string]", actual: value }
+    ])
+    assert.deepEqual(space.validate("int32|string", true), [{ path: "", expected: "int32|string", actual: true }])
+  })
+})
@@ -0,0 +1,107 @@
+import { after, before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import startSystem from "../index.js"
+
+describe("std.journal", () => {
+  let theater, journal, space, directory
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "journal-"))
+    const loader = (await startSystem([])).loader()
+    const data = await loader.provide("std.data")
+    theater = await loader.provide("std.theater")
+    journal = await loader.provide("std.journal")
+    space = data.inflate({})
+  })
+  after(() => rm(directory, { recursive: true, force: true }))
+  // cast a persistent counter that logs the events it applies and the states it restores
+  function castCounter(store, snapshots = 0) {
+    const log = []
+    class Counter extends journal.PersistentRole()(Object) {
+      total = 0
+      definePersistence() { return { id: "counter", store, space, event: "int32", snapshots } }
+      applyEvent(delta) { log.push(`apply ${delta} after ${this.sequence}`); this.total += delta }
+      captureState() { return this.total }
+      restoreState(total) { log.push(`restore ${total}`); this.total = total }
+      *add(delta) {
+        yield* this.persist(delta)
+        return this.total
+      }
+      *get() { return this.total }
+    }
+    for (const key of ["add", "get"]) {
+      theater.Play(Counter.prototype, key, Object.getOwnPropertyDescriptor(Counter.prototype, key))
+    }
+    return { counter: theater.cast({ Role: Counter, p: [], guard: () => "forgive" }), log }
+  }
+  test("persist recovers when the store fails to append", async () => {
+    const memory = journal.memory()
+    let failures = 1
+    const store = {
+      append(id, entries) {
+        return failures-- > 0 ? Promise.reject(new Error("disk full")) : memory.append(id, entries)
+      },
+      replay: memory.replay.bind(memory),
+      save: memory.save.bind(memory),
+      load: memory.load.bind(memory),
+    }
+    const { counter } = castCounter(store)
+    await assert.rejects(async () => await counter.add(1), blooper => blooper.cause.message === "disk full")
+    assert.equal(await counter.add(2), 2)
+    assert.equal(await counter.add(3), 5)
+    assert.deepEqual((await memory.replay("counter", 0)).map(({ sequence }) => sequence), [1, 2])
+  })
+  test("concurrent persists are appended and applied in sequence order", async () => {
+    const memory = journal.memory(), appends = []
+    let slow = true
+    const store = {
+      // the first append completes after later appends would have completed
+      async append(id, entries) {
+        appends.push(entries.map(({ sequence }) => sequence))
+        if (slow) {
+          slow = false
+          await new Promise(resolve => setTimeout(resolve, 20))
+        }
+        return memory.append(id, entries)
+      },
+      replay: memory.replay.bind(memory),
+      save: memory.save.bind(memory),
+      load: memory.load.bind(memory),
+    }
+    const { counter, log } = castCounter(store)
+    const totals = await Promise.all([1, 2, 3].map(delta => counter.add(delta).then(total => total)))
+    assert.deepEqual(appends, [[1], [2], [3]])
+    assert.deepEqual(log, ["apply 1 after 0", "apply 2 after 1", "apply 3 after 2"])
+    assert.deepEqual(totals, [1, 3, 6])
+  })
+  test("file store replays its journal after it has been reopened", async () => {
+    const path = join(directory, "replay")
+    const { counter } = castCounter(journal.directory(path))
+    for (const delta of [1, 2, 3]) {
+      await counter.add(delta)
+    }
+    const store = journal.directory(path)
+    assert.deepEqual(await store.replay("counter", 1), [{ sequence: 2, event: 2 }, { sequence: 3, event: 3 }])
+    assert.equal(await store.load("counter"), void 0)
+    const reopened = castCounter(store)
+    assert.equal(await reopened.counter.get(), 6)
+    assert.deepEqual(reopened.log, ["apply 1 after 0", "apply 2 after 1", "apply 3 after 2"])
+    await assert.rejects(store.append("counter", [{ sequence: 5, event: 5 }]), {
+      message: 'journal entry 5 of "counter" does not follow entry 3'
+    })
+  })
+  test("file store restores snapshot and replays the entries after it", async () => {
+    const path = join(directory, "snapshot")
+    const { counter } = castCounter(journal.directory(path), 2)
+    for (const delta of [1, 2, 3]) {
+      await counter.add(delta)
+    }
+    const store = journal.directory(path)
+    assert.deepEqual(await store.load("counter"), { sequence: 2, state: 3 })
+    const reopened = castCounter(store, 2)
+    assert.equal(await reopened.counter.get(), 6)
+    assert.deepEqual(reopened.log, ["restore 3", "apply 3 after 2"])
+  })
+})
@@ -0,0 +1,54 @@
+import { after, before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import startSystem from "../index.js"
+
+describe("std.system", () => {
+  let system, theater, subsystem, subsystemId
+  before(async () => {
+    system = await startSystem([])
+    theater = await system.loader().provide("std.theater")
+    subsystem = theater.cast({ Role: system.Subsidiary(), p: [[]], guard: () => "punish" })
+    subsystemId = await subsystem.id()
+  })
+  after(async () => { await subsystem.kill() })
+  // wait for the termination record of an actor, or give up after a second
+  const termination = (actor, ms = 1_000) => Promise.race([
+    new Promise(resolve => theater.run(function* () { resolve((yield theater.watch(actor)).prompt) })),
+    new Promise(resolve => setTimeout(resolve, ms, { cause: "alive" }))
+  ])
+  test("event bus removes subscription of nearby actor whose component is gone", async () => {
+    const bus = theater.cast({ Role: theater.EventBus(), p: [], guard: () => "forgive" })
+    const nearby = theater.cast({ Role: system.Nearby(), p: [subsystemId, "missing"], guard: () => "forgive" })
+    await bus.subscribe("topic", nearby, "receive")
+    assert.equal(await bus.publish("topic", 42), 1)
+    assert.equal((await termination(nearby)).cause, "killed")
+    assert.deepEqual(await bus.topics(), [])
+  })
+  test("termination record of watched component can travel between systems", async () => {
+    const Victim = class extends theater.Role()(Object) {
+      *fail(_callback) { throw new Error("victim failure") }
+    }
+    theater.Play(Victim.prototype, "fail", Object.getOwnPropertyDescriptor(Victim.prototype, "fail"))
+    const victim = theater.cast({ Role: Victim, p: [], guard: () => "punish" })
+    await system.root().container.assign("victim", victim)
+    const watching = system.watch(system.id(), "victim")
+    watching.run()
+    await assert.rejects(async () => await victim.fail(() => { }), { message: "victim failure" })
+    const record = await watching
+    assert.deepEqual(record, { cause: "punished", incident: { selector: "fail", arity: 1, message: "victim failure" } })
+    assert.deepEqual(structuredClone(record), record)
+  })
+  test("event bus removes subscription of nearby actor whose component dies", async () => {
+    const bus = theater.cast({ Role: theater.EventBus(), p: [], guard: () => "forgive" })
+    // the logger of the subsystem is a nearby actor of the top logger
+    const nearby = theater.cast({ Role: system.Nearby(), p: [subsystemId, "logger"], guard: () => "forgive" })
+    await bus.subscribe("topic", nearby, "report")
+    const message = { severity: "debug", format: "nearby logger", parameters: [], timestamp: 0, origin: [0] }
+    assert.equal(await bus.publish("topic", message), 1)
+    assert.equal((await termination(nearby, 100)).cause, "alive")
+    // the subsystem logger dies with the top logger, and the nearby actor dies with the subsystem logger
+    await system.root().resolve("logger").kill()
+    assert.equal((await termination(nearby)).cause, "killed")
+    assert.deepEqual(await bus.topics(), [])
+  })
+})
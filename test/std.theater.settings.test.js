@@ -0,0 +1,14 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import startSystem from "../index.js"
+
+// the theater service can only be configured once in a process
+test("theater rejects a stage window that is not a positive integer", async () => {
+  const id = new URL("./fixtures/settings.js", import.meta.url).href
+  await assert.rejects(startSystem([{ id, service: { "std.theater": { configuration: true } } }]), error => {
+    while (error.cause) {
+      error = error.cause
+    }
+    return error.message === "window setting must be a positive integer"
+  })
+})
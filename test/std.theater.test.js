@@ -0,0 +1,314 @@
+import { before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import startSystem from "../index.js"
+
+describe("std.theater", () => {
+  let theater, future
+  before(async () => {
+    const loader = (await startSystem([])).loader()
+    theater = await loader.provide("std.theater")
+    future = await loader.provide("std.future")
+  })
+  // mark generator methods of a role class as scene methods
+  function play(Role, ...keys) {
+    for (const key of keys) {
+      theater.Play(Role.prototype, key, Object.getOwnPropertyDescriptor(Role.prototype, key))
+    }
+    return Role
+  }
+  test("guard supervises expired deadline while offender is on stage", async () => {
+    const Sleeper = play(class extends theater.Role()(Object) {
+      *sleep(ms) { yield future.timeout(ms) }
+    }, "sleep")
+    const incidents = []
+    const guard = incident => {
+      incidents.push({ timeout: theater.isTimeout(incident.blooper), showing: theater.isShowing() })
+      return "forgive"
+    }
+    const sleeper = theater.cast({ Role: Sleeper, p: [], guard })
+    await assert.rejects(async () => await sleeper.sleep(1_000).deadline(10), blooper => theater.isTimeout(blooper))
+    assert.deepEqual(incidents, [{ timeout: true, showing: true }])
+    assert.ok(theater.isEmployable(sleeper))
+  })
+  test("snapshot from inside a scene includes the job on stage", async () => {
+    const Inspector = play(class extends theater.Role()(Object) {
+      *inspect() { return find(theater.snapshot(), this.self) }
+    }, "inspect")
+    const find = (snapshot, actor) =>
+      snapshot.actor === actor ? snapshot : snapshot.team.map(member => find(member, actor)).find(Boolean)
+    const inspector = theater.cast({ Role: Inspector, p: [], guard: () => "forgive" })
+    const snapshot = await inspector.inspect()
+    assert.equal(snapshot.status, "busy")
+    assert.deepEqual(snapshot.selectors, ["inspect"])
+  })
+  test("escalated actor disposes its role", async () => {
+    let disposed
+    const disposal = new Promise(resolve => disposed = resolve)
+    const Child = play(class extends theater.Role()(Object) {
+      *fail() { throw new Error("oops") }
+      *disposeRole() { disposed(true) }
+    }, "fail")
+    const Parent = play(class extends theater.Role()(Object) {
+      *spawn() {
+        const child = this.castChild({ Role: Child, p: [], guard: () => "escalate" })
+        const { blooper } = yield child.fail()
+        return blooper.message
+      }
+    }, "spawn")
+    const parent = theater.cast({ Role: Parent, p: [], guard: () => "forgive" })
+    assert.equal(await parent.spawn(), "oops")
+    const timeout = new Promise(resolve => setTimeout(resolve, 100, false))
+    assert.ok(await Promise.race([disposal, timeout]))
+  })
+  test("consistent-hash router keeps keys of surviving routees and passes back their bloopers", async () => {
+    let serial = 0
+    const Worker = play(class extends theater.Role()(Object) {
+      id = serial++;
+      *work() { return this.id }
+      *fail() { throw new Error("routee failure") }
+    }, "work", "fail")
+    const incidents = []
+    const router = theater.cast({
+      Role: theater.Router(),
+      p: [{ casting: { Role: Worker, p: [], guard: () => "punish" }, size: 4, strategy: "consistent-hash" }],
+      guard: incident => { incidents.push(incident); return "forgive" },
+    })
+    const keys = Array.from({ length: 32 }, (_, i) => `key${i}`)
+    const before = await Promise.all(keys.map(key => router.work(key)))
+    // the routee of a key in the middle of the pool dies
+    const victim = before.find(id => id !== 0 && id !== 3)
+    await assert.rejects(async () => await router.fail(keys[before.indexOf(victim)]), { message: "routee failure" })
+    assert.deepEqual(incidents, [])
+    await new Promise(resolve => setTimeout(resolve, 10))
+    const after = await Promise.all(keys.map(key => router.work(key)))
+    assert.equal(await router.size(), 3)
+    assert.deepEqual(after.filter((id, i) => before[i] !== victim), before.filter(id => id !== victim))
+    assert.ok(!after.includes(victim))
+  })
+  test("default deadline of casting expires jobs of actor", async () => {
+    const Sleeper = play(class extends theater.Role()(Object) {
+      *sleep(ms) { yield future.timeout(ms) }
+    }, "sleep")
+    const sleeper = theater.cast({ Role: Sleeper, p: [], guard: () => "forgive", deadline: 10 })
+    await assert.rejects(async () => await sleeper.sleep(1_000), blooper => {
+      assert.ok(theater.isTimeout(blooper))
+      assert.equal(blooper.deadline, 10)
+      return true
+    })
+    assert.equal(await sleeper.sleep(1), void 0)
+  })
+  test("casting rejects deadlines that are not positive numbers", () => {
+    const Idler = class extends theater.Role()(Object) { }
+    for (const deadline of [-1, 0, NaN, Infinity]) {
+      assert.throws(() => theater.cast({ Role: Idler, p: [], guard: () => "forgive", deadline }), {
+        message: "casting deadline must be a positive number of milliseconds"
+      })
+    }
+  })
+  // cast children a, b and c with the same strategy, and log the names of the children when their roles are cast
+  async function supervise(strategy, strategies = [strategy, strategy, strategy]) {
+    const log = [], escalations = [], children = []
+    const Child = play(class extends theater.Role()(Object) {
+      constructor(name) { super(); log.push(name) }
+      *fail() { throw new Error("child failure") }
+    }, "fail")
+    const Parent = play(class extends theater.Role()(Object) {
+      *spawn() {
+        for (const [i, name] of ["a", "b", "c"].entries()) {
+          const casting = { Role: Child, p: [name], guard: () => ({ recast: casting }), strategy: strategies[i] }
+          children.push(this.castChild(casting))
+        }
+      }
+    }, "spawn")
+    const guard = incident => { escalations.push(incident); return "forgive" }
+    await theater.cast({ Role: Parent, p: [], guard }).spawn()
+    log.length = 0
+    // fail a child and give the supervisor some time to recast
+    const fail = async (name, ms = 10) => {
+      const child = children[["a", "b", "c"].indexOf(name)]
+      await assert.rejects(async () => await child.fail(), { message: "child failure" })
+      await new Promise(resolve => setTimeout(resolve, ms))
+    }
+    return { log, escalations, children, fail }
+  }
+  test("one-for-one strategy recasts the offender", async () => {
+    const { log, fail } = await supervise({ restart: "one-for-one" })
+    await fail("b")
+    assert.deepEqual(log, ["b"])
+  })
+  test("one-for-all strategy recasts the sibling group", async () => {
+    const { log, fail } = await supervise({ restart: "one-for-all" })
+    await fail("b")
+    assert.deepEqual(log.sort(), ["a", "b", "c"])
+  })
+  test("rest-for-one strategy recasts the offender and the siblings that were cast after it", async () => {
+    const { log, fail } = await supervise({ restart: "rest-for-one" })
+    await fail("b")
+    assert.deepEqual(log.sort(), ["b", "c"])
+  })
+  test("sibling group is identified by the strategy object", async () => {
+    const { log, fail } = await supervise(void 0, [{ restart: "one-for-all" }, { restart: "one-for-all" }, void 0])
+    await fail("a")
+    assert.deepEqual(log, ["a"])
+  })
+  test("recast that exceeds the restart intensity in the period escalates", async () => {
+    const { log, escalations, children, fail } = await supervise({ intensity: 1, period: 10_000 })
+    await fail("a")
+    assert.deepEqual([log, escalations.length], [["a"], 0])
+    await fail("a")
+    assert.deepEqual([log, escalations.length], [["a"], 1])
+    assert.ok(!theater.isEmployable(children[0]))
+    assert.ok(theater.isEmployable(children[1]))
+  })
+  test("backoff delays recasts", async () => {
+    const { log, fail } = await supervise({ backoff: { initial: 50 } })
+    await fail("c")
+    assert.deepEqual(log, [])
+    await new Promise(resolve => setTimeout(resolve, 100))
+    assert.deepEqual(log, ["c"])
+  })
+  test("stage promotes ready actors of lower priority classes after their aging limits", async () => {
+    const log = []
+    const Worker = play(class extends theater.Role()(Object) {
+      *work(name) { log.push(name) }
+    }, "work")
+    const cast = priority => theater.cast({ Role: Worker, p: [], guard: () => "forgive", priority })
+    const interactive = cast("interactive"), normal = cast("normal"), background = cast("background")
+    await Promise.all([interactive, normal, background].map(actor => actor.work("cast")))
+    for (const [lower, name, limit] of [[normal, "normal", 4], [background, "background", 8]]) {
+      log.length = 0
+      // run jobs without settling their promises, which would occupy the stage with background jobs
+      for (let i = 0; i < 12; ++i) {
+        interactive.work("interactive").run()
+      }
+      lower.work(name).run()
+      await new Promise(resolve => setTimeout(resolve, 10))
+      assert.equal(log.indexOf(name), limit)
+      assert.equal(log.length, 13)
+    }
+  })
+  test("unstashed jobs keep their order in front of other jobs", async () => {
+    const log = []
+    const Connection = play(class extends theater.Role()(Object) {
+      connected = false;
+      *request(value) {
+        if (!this.connected) {
+          this.stashJob()
+        }
+        log.push(value)
+        return value
+      }
+      *connect() {
+        this.connected = true
+        this.unstashJobs()
+      }
+    }, "request", "connect")
+    const connection = theater.cast({ Role: Connection, p: [], guard: () => "forgive" })
+    const stashed = [1, 2, 3].map(value => connection.request(value).then(value => value))
+    await new Promise(resolve => setTimeout(resolve, 1))
+    assert.deepEqual(log, [])
+    const find = snapshot => snapshot.actor === connection ? snapshot : snapshot.team.map(find).find(Boolean)
+    assert.equal(find(theater.snapshot()).jobs.stashed, 3)
+    connection.connect().run()
+    const later = connection.request(4).then(value => value)
+    assert.deepEqual(await Promise.all([...stashed, later]), [1, 2, 3, 4])
+    assert.deepEqual(log, [1, 2, 3, 4])
+  })
+  test("machine transitions notify observers and screen postponed jobs again", async () => {
+    const log = []
+    const Door = play(class extends theater.MachineRole()(Object) {
+      defineMachine() {
+        return {
+          initial: "closed",
+          states: {
+            closed: { accepts: ["open"], otherwise: "postpone" },
+            opened: {
+              accepts: ["pass", "close"],
+              *enter(previous) { log.push(`enter from ${previous}`) },
+              *exit(next) { log.push(`exit to ${next}`) },
+            },
+          },
+        }
+      }
+      *open() { yield* this.transitionTo("opened") }
+      *close() { yield* this.transitionTo("closed") }
+      *pass() { log.push("pass"); return this.currentState }
+    }, "open", "close", "pass")
+    const door = theater.cast({ Role: Door, p: [], guard: () => "forgive" })
+    const observers = [door.transition().then(value => value), door.transition().then(value => value)]
+    const passing = door.pass().then(value => value)
+    await new Promise(resolve => setTimeout(resolve, 1))
+    assert.deepEqual(log, [])
+    door.open().run()
+    const opened = { from: "closed", to: "opened" }
+    assert.deepEqual(await Promise.all([...observers, passing]), [opened, opened, "opened"])
+    assert.deepEqual(log, ["enter from closed", "pass"])
+    await assert.rejects(async () => await door.open(), { message: '"open" is not accepted in state "opened"' })
+    const closing = door.transition().then(value => value)
+    door.close().run()
+    assert.deepEqual(await closing, { from: "opened", to: "closed" })
+    assert.deepEqual(log, ["enter from closed", "pass", "exit to closed"])
+    assert.equal(await door.state(), "closed")
+  })
+  // cast an actor with a mailbox of one message, which queues messages until the initialization gate opens
+  async function occupy(overflow) {
+    const Holder = play(class extends theater.Role()(Object) {
+      *initializeRole(gate) { yield gate }
+      *echo(value) { return value }
+    }, "echo")
+    const { promise: gate, resolve: open } = Promise.withResolvers()
+    const actor = theater.cast({ Role: Holder, p: [gate], guard: () => "forgive", mailbox: { capacity: 1, overflow } })
+    await new Promise(resolve => setTimeout(resolve, 1))
+    return { actor, open }
+  }
+  test("full mailbox rejects new message with reject policy", async () => {
+    const { actor, open } = await occupy("reject")
+    const queued = actor.echo(1).then(value => value)
+    assert.equal(theater.queueLength(actor), 1)
+    await assert.rejects(async () => await actor.echo(2), { message: "mailbox overflow" })
+    assert.equal(theater.queueLength(actor), 1)
+    open()
+    assert.equal(await queued, 1)
+    assert.equal(theater.queueLength(actor), 0)
+  })
+  test("full mailbox drops oldest message with drop-oldest policy", async () => {
+    const { actor, open } = await occupy("drop-oldest")
+    const oldest = actor.echo(1).then(value => value)
+    const newest = actor.echo(2).then(value => value)
+    await assert.rejects(oldest, { message: "mailbox overflow" })
+    assert.equal(theater.queueLength(actor), 1)
+    open()
+    assert.equal(await newest, 2)
+  })
+  test("full mailbox blocks new message with wait policy", async () => {
+    const { actor, open } = await occupy("wait")
+    const order = []
+    const first = actor.echo(1).then(value => order.push(value))
+    const second = actor.echo(2).then(value => order.push(value))
+    await new Promise(resolve => setTimeout(resolve, 1))
+    assert.equal(theater.queueLength(actor), 1)
+    open()
+    await Promise.all([first, second])
+    assert.deepEqual(order, [1, 2])
+  })
+  test("delivery signals admission of job in mailbox", async () => {
+    const { actor, open } = await occupy("wait")
+    const log = []
+    const delivering = scene => new Promise(resolve => theater.run(function* () {
+      const { blooper } = yield theater.deliver(scene)
+      log.push(blooper ? blooper.message : "admitted")
+      resolve()
+    }))
+    const queued = actor.echo(1), waiting = actor.echo(2)
+    await delivering(queued)
+    assert.deepEqual(log, ["admitted"])
+    const admission = delivering(waiting)
+    await new Promise(resolve => setTimeout(resolve, 1))
+    assert.deepEqual(log, ["admitted"])
+    open()
+    await admission
+    assert.deepEqual(log, ["admitted", "admitted"])
+    assert.deepEqual(await Promise.all([queued.then(value => value), waiting.then(value => value)]), [1, 2])
+    assert.throws(() => theater.deliver(queued), { message: /inert/ })
+  })
+})
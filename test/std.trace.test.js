@@ -0,0 +1,25 @@
+import { before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import startSystem from "../index.js"
+
+describe("std.trace", () => {
+  let trace
+  before(async () => { trace = await (await startSystem([])).loader().provide("std.trace") })
+  // trace event of a job with trace id 1
+  const event = (job, actor, role, phase, time) => ({ trace: 1, job, actor, role, selector: "work", phase, time })
+  test("chrome trace events are in chronological order", () => {
+    const { traceEvents } = trace.chrome([
+      event(1, 1, "Boss", "start", 1),
+      event(1, 1, "Boss", "yield", 2),
+      event(2, 2, "Worker", "start", 3),
+      event(2, 2, "Worker", "complete", 5),
+      event(1, 1, "Boss", "resume", 6),
+      event(1, 1, "Boss", "complete", 7),
+    ])
+    const timestamps = traceEvents.map(({ ts }) => ts)
+    assert.deepEqual(timestamps, [...timestamps].sort((a, b) => a - b))
+    assert.deepEqual(traceEvents.filter(({ ph }) => ph === "X").map(({ ts, dur }) => [ts, dur]),
+      [[1000, 1000], [3000, 2000], [6000, 1000]])
+    assert.deepEqual(traceEvents.filter(({ ph }) => ph === "M").map(({ args }) => args.name), ["Boss #1", "Worker #2"])
+  })
+})
@@ -0,0 +1,66 @@
+import { before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import startSystem from "../index.js"
+import * as virtualBindings from "../platform/virtual/build/bindings.js"
+
+describe("virtual platform", () => {
+  let scheduler, kernel, theater, future
+  before(async () => {
+    const loader = (await startSystem([virtualBindings])).loader()
+    scheduler = await loader.provide("std.scheduler")
+    kernel = await loader.provide("std.kernel")
+    theater = await loader.provide("std.theater")
+    future = await loader.provide("std.future")
+  })
+  // give the automatic drain of the scheduler some real time
+  const settle = () => new Promise(resolve => setTimeout(resolve, 1))
+  test("held tasks are flushed in order of scheduling with microtasks first", async () => {
+    const log = []
+    scheduler.hold()
+    kernel.queueMacrotask(() => log.push("macro 1"))
+    kernel.queueMicrotask(() => log.push("micro 1"))
+    kernel.queueTimeout(0, () => log.push("macro 2"))
+    kernel.queueMicrotask(() => log.push("micro 2"))
+    await settle()
+    assert.deepEqual([log, scheduler.pending()], [[], 4])
+    assert.ok(scheduler.step())
+    assert.deepEqual(log, ["micro 1"])
+    assert.equal(scheduler.flush(), 3)
+    assert.deepEqual(log, ["micro 1", "micro 2", "macro 1", "macro 2"])
+    assert.ok(!scheduler.step())
+    scheduler.release()
+    assert.ok(!scheduler.isHolding())
+  })
+  test("timeouts are only executed when the virtual clock advances to their due time", async () => {
+    const log = [], start = kernel.now()
+    kernel.queueTimeout(20, () => log.push("b"))
+    kernel.queueTimeout(10, () => log.push("a"))
+    kernel.queueTimeout(20, () => log.push("c"))
+    const cancel = kernel.queueTimeout(15, () => log.push("cancelled"))
+    cancel()
+    await settle()
+    assert.deepEqual([log, scheduler.pending()], [[], 3])
+    assert.equal(scheduler.advance(10), 1)
+    assert.deepEqual(log, ["a"])
+    assert.equal(scheduler.advance(100), 2)
+    assert.deepEqual(log, ["a", "b", "c"])
+    assert.equal(kernel.now(), start + 110)
+    assert.throws(() => scheduler.advance(-1), { message: "cannot advance virtual clock with a negative period" })
+  })
+  test("advance drives timeouts of sleeping actors", async () => {
+    const Sleeper = class extends theater.Role()(Object) {
+      *sleep(ms) { yield future.timeout(ms); return ms }
+    }
+    theater.Play(Sleeper.prototype, "sleep", Object.getOwnPropertyDescriptor(Sleeper.prototype, "sleep"))
+    const sleeper = theater.cast({ Role: Sleeper, p: [], guard: () => "forgive" })
+    const log = []
+    sleeper.sleep(1_000).then(ms => log.push(ms))
+    await settle()
+    scheduler.advance(999)
+    await settle()
+    assert.deepEqual(log, [])
+    scheduler.advance(1)
+    await settle()
+    assert.deepEqual(log, [1_000])
+  })
+})